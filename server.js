@@ -2,14 +2,35 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { fileURLToPath } from 'url';
+import { existsSync } from 'fs';
 import { dirname, join } from 'path';
 import { createProxyMiddleware } from 'http-proxy-middleware';
+import { createClient } from '@supabase/supabase-js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// A .env file is optional; without one the variables come from the environment
+const envFile = join(__dirname, '.env');
+if (existsSync(envFile)) {
+  process.loadEnvFile(envFile);
+}
+
 const app = express();
 
+// The server only checks tokens and reads the caller's own user row, so the
+// public anon key is enough. The Vite names are accepted so one .env serves both.
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error('Missing Supabase credentials. Set SUPABASE_URL and SUPABASE_ANON_KEY.');
+  process.exit(1);
+}
+
+const supabaseOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+const supabase = createClient(supabaseUrl, supabaseKey, supabaseOptions);
+
 // Increase timeouts for long-running connections
 const httpServer = createServer({
   requestTimeout: 300000, // 5 minutes
@@ -26,6 +47,8 @@ const io = new Server(httpServer, {
     credentials: true
   },
   transports: ['websocket'],
+  // Engine.IO's own heartbeat finds dead connections, so a display that
+  // goes away is dropped from the outputs list by the disconnect handler
   pingTimeout: 60000, // 1 minute
   pingInterval: 25000, // 25 seconds
   connectTimeout: 60000, // 1 minute
@@ -36,36 +59,102 @@ const io = new Server(httpServer, {
 
 const presentationWindows = new Map();
 const controlPanels = new Map();
-const messageQueue = new Map();
-const heartbeats = new Map();
 
-// Heartbeat check interval (every 30 seconds)
-const HEARTBEAT_INTERVAL = 30000;
-const HEARTBEAT_TIMEOUT = 60000; // 1 minute timeout
+// What each church's displays are showing (slide, overlay, theme and logo),
+// so a display that opens or reconnects can catch up straight away. Every
+// update gets the next sequence number; the epoch changes when the server
+// restarts, so displays know the numbering has started again.
+const liveStates = new Map();
+const SERVER_EPOCH = Date.now().toString(36);
 
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
-  heartbeats.set(socket.id, Date.now());
-
-  // Send queued messages for this client
-  const queuedMessages = messageQueue.get(socket.id);
-  if (queuedMessages) {
-    queuedMessages.forEach(msg => socket.emit(msg.event, msg.data));
-    messageQueue.delete(socket.id);
+function applyUpdate(churchId, data) {
+  // fade only affects how this one change is shown, and updateId only
+  // identifies it
+  const { fade, updateId, ...changes } = data;
+  const live = liveStates.get(churchId) ?? { seq: 0, state: {} };
+  live.seq += 1;
+  live.state = { ...live.state, ...changes };
+  liveStates.set(churchId, live);
+  return { ...changes, fade, updateId, seq: live.seq, epoch: SERVER_EPOCH };
+}
+
+// Each church's displays and control panels share rooms, so updates never
+// reach another church's screens
+const displayRoom = (churchId) => `church:${churchId}:displays`;
+const controlRoom = (churchId) => `church:${churchId}:controls`;
+
+const OUTPUT_ROLES = ['main', 'stage', 'lower-third'];
+
+// The displays a church has open, for its control panels' status list
+function listOutputs(churchId) {
+  return [...presentationWindows.entries()]
+    .filter(([, display]) => display.churchId === churchId)
+    .map(([id, display]) => ({ id: display.clientId ?? id, role: display.role }));
+}
+
+function announceOutputs(churchId) {
+  io.to(controlRoom(churchId)).emit('outputsChanged', listOutputs(churchId));
+}
+
+function unauthorized(message) {
+  const error = new Error(message);
+  error.data = { code: 'unauthorized' };
+  return error;
+}
+
+// Verifies a Supabase access token and looks up the user's church and role.
+// The lookup runs as the user, so row level security applies as in the app.
+async function authenticate(token) {
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile, error: profileError } = await createClient(supabaseUrl, supabaseKey, {
+    ...supabaseOptions,
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  })
+    .from('users')
+    .select('church_id, role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError || !profile?.church_id) return null;
+  return { id: user.id, churchId: profile.church_id, role: profile.role };
+}
+
+// Sockets are checked once, at the handshake. The client sends a fresh token
+// whenever it reconnects.
+io.use(async (socket, next) => {
+  try {
+    const token = socket.handshake.auth?.token;
+    if (!token) return next(unauthorized('Authentication required'));
+
+    const user = await authenticate(token);
+    if (!user) return next(unauthorized('Invalid or expired session'));
+
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('Authentication failed'));
   }
+});
 
-  // Update heartbeat on ping
-  socket.on('ping', () => {
-    heartbeats.set(socket.id, Date.now());
-    socket.emit('pong');
-  });
+io.on('connection', (socket) => {
+  const { churchId, role } = socket.data.user;
+  console.log('Client connected:', socket.id, 'Church:', churchId);
 
   socket.on('registerPresentation', (data, callback) => {
     try {
-      console.log('Presentation window registered:', socket.id);
+      // Every role gets the same updates; each lays them out its own way
+      const outputRole = OUTPUT_ROLES.includes(data?.role) ? data.role : 'main';
+      console.log('Presentation window registered:', socket.id, 'Role:', outputRole);
+      socket.join(displayRoom(churchId));
       presentationWindows.set(socket.id, { 
-        connectedAt: Date.now(),
-        lastHeartbeat: Date.now()
+        churchId,
+        role: outputRole,
+        // The id the display also uses between tabs in its own browser
+        clientId: typeof data?.clientId === 'string' ? data.clientId : null,
+        connectedAt: Date.now()
       });
       
       // Acknowledge registration
@@ -73,10 +162,15 @@ io.on('connection', (socket) => {
         callback({ success: true });
       }
 
-      // Notify control panels
-      controlPanels.forEach((data, controlId) => {
-        io.to(controlId).emit('presentationConnected', { id: socket.id });
-      });
+      // Bring the display up to date without waiting for the operator
+      const live = liveStates.get(churchId);
+      if (live) {
+        socket.emit('presentationUpdate', { ...live.state, seq: live.seq, epoch: SERVER_EPOCH });
+      }
+
+      // Notify this church's control panels
+      io.to(controlRoom(churchId)).emit('presentationConnected', { id: socket.id, role: outputRole });
+      announceOutputs(churchId);
     } catch (error) {
       console.error('Error in registerPresentation:', error);
       if (typeof callback === 'function') {
@@ -88,14 +182,17 @@ io.on('connection', (socket) => {
   socket.on('registerControl', (data, callback) => {
     try {
       console.log('Control panel registered:', socket.id);
+      socket.join(controlRoom(churchId));
       controlPanels.set(socket.id, { 
-        connectedAt: Date.now(),
-        lastHeartbeat: Date.now()
+        churchId,
+        connectedAt: Date.now()
       });
       
       if (typeof callback === 'function') {
         callback({ success: true });
       }
+
+      socket.emit('outputsChanged', listOutputs(churchId));
     } catch (error) {
       console.error('Error in registerControl:', error);
       if (typeof callback === 'function') {
@@ -106,24 +203,22 @@ io.on('connection', (socket) => {
 
   socket.on('presentationUpdate', (data, callback) => {
     try {
-      console.log('Update received from:', socket.id);
-      
-      // Broadcast to all presentation windows
-      presentationWindows.forEach((data, windowId) => {
-        const socket = io.sockets.sockets.get(windowId);
-        if (socket && socket.connected) {
-          socket.emit('presentationUpdate', data);
-        } else {
-          // Queue message for disconnected clients
-          if (!messageQueue.has(windowId)) {
-            messageQueue.set(windowId, []);
-          }
-          messageQueue.get(windowId).push({
-            event: 'presentationUpdate',
-            data
-          });
+      if (role !== 'admin' && role !== 'editor') {
+        if (typeof callback === 'function') {
+          callback({ error: 'Viewers cannot control the display' });
         }
-      });
+        return;
+      }
+
+      if (!data || typeof data !== 'object') {
+        if (typeof callback === 'function') {
+          callback({ error: 'Invalid update' });
+        }
+        return;
+      }
+
+      console.log('Update received from:', socket.id);
+      io.to(displayRoom(churchId)).emit('presentationUpdate', applyUpdate(churchId, data));
 
       if (typeof callback === 'function') {
         callback({ success: true });
@@ -140,19 +235,14 @@ io.on('connection', (socket) => {
     try {
       console.log('Client disconnected:', socket.id, 'Reason:', reason);
       
-      if (presentationWindows.has(socket.id)) {
+      const display = presentationWindows.get(socket.id);
+      if (display) {
         presentationWindows.delete(socket.id);
-        controlPanels.forEach((data, controlId) => {
-          const socket = io.sockets.sockets.get(controlId);
-          if (socket && socket.connected) {
-            socket.emit('presentationDisconnected', { id: socket.id });
-          }
-        });
+        io.to(controlRoom(churchId)).emit('presentationDisconnected', { id: socket.id, role: display.role });
+        announceOutputs(churchId);
       }
       
       controlPanels.delete(socket.id);
-      messageQueue.delete(socket.id);
-      heartbeats.delete(socket.id);
     } catch (error) {
       console.error('Error in disconnect handler:', error);
     }
@@ -164,41 +254,6 @@ io.on('connection', (socket) => {
   });
 });
 
-// Heartbeat check (every 30 seconds)
-setInterval(() => {
-  const now = Date.now();
-  [...heartbeats.entries()].forEach(([socketId, lastBeat]) => {
-    if (now - lastBeat > HEARTBEAT_TIMEOUT) {
-      const socket = io.sockets.sockets.get(socketId);
-      if (socket) {
-        console.log('Client timed out:', socketId);
-        socket.disconnect(true);
-      }
-      heartbeats.delete(socketId);
-    }
-  });
-}, HEARTBEAT_INTERVAL);
-
-// Clean up stale connections periodically
-setInterval(() => {
-  const now = Date.now();
-  const staleTimeout = 5 * 60 * 1000; // 5 minutes
-
-  [...presentationWindows.entries()].forEach(([id, data]) => {
-    if (now - data.lastHeartbeat > staleTimeout) {
-      presentationWindows.delete(id);
-      console.log('Removed stale presentation window:', id);
-    }
-  });
-
-  [...controlPanels.entries()].forEach(([id, data]) => {
-    if (now - data.lastHeartbeat > staleTimeout) {
-      controlPanels.delete(id);
-      console.log('Removed stale control panel:', id);
-    }
-  });
-}, 60000); // Check every minute
-
 // Development proxy configuration
 if (process.env.NODE_ENV !== 'production') {
   const proxy = createProxyMiddleware({
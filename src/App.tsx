@@ -7,6 +7,8 @@ import { Login } from './components/Login';
 import { Register } from './components/Register';
 import { ChurchSettings } from './components/ChurchSettings';
 import { SongLibrary } from './components/SongLibrary';
+import { ServicePlanner } from './components/ServicePlanner';
+import { UsageReport } from './components/UsageReport';
 import { supabase } from './lib/supabase';
 
 // Auth guard component
@@ -58,6 +60,14 @@ const router = createBrowserRouter([
     path: '/present',
     element: <PresentationView />
   },
+  {
+    path: '/present/stage',
+    element: <PresentationView role="stage" />
+  },
+  {
+    path: '/present/lower-third',
+    element: <PresentationView role="lower-third" />
+  },
   {
     path: '/',
     element: (
@@ -74,6 +84,14 @@ const router = createBrowserRouter([
         path: 'songs',
         element: <SongLibrary />
       },
+      {
+        path: 'services',
+        element: <ServicePlanner />
+      },
+      {
+        path: 'reports',
+        element: <UsageReport />
+      },
       {
         path: 'settings',
         element: <ChurchSettings />
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { formatArrangement, getSegmentCodes, getSegmentLabels, parseArrangement } from '../lib/arrangements';
+import { SEGMENT_TYPE_COLORS } from '../lib/segmentTypes';
+import type { SongDraft } from '../types';
+
+type DraftArrangement = NonNullable<SongDraft['arrangements']>[number];
+type DraftSegment = SongDraft['segments'][number];
+
+interface ArrangementEditorProps {
+  segments: DraftSegment[];
+  arrangements: DraftArrangement[];
+  onChange: (arrangements: DraftArrangement[]) => void;
+}
+
+interface ArrangementRowProps {
+  arrangement: DraftArrangement;
+  segments: DraftSegment[];
+  onChange: (changes: Partial<DraftArrangement>) => void;
+  onMakeDefault: () => void;
+  onRemove: () => void;
+}
+
+function ArrangementRow({ arrangement, segments, onChange, onMakeDefault, onRemove }: ArrangementRowProps) {
+  // The text is kept locally so half-typed codes don't get dropped, and is
+  // re-derived from the ids whenever it is not being edited.
+  const [text, setText] = useState<string | null>(null);
+  const codes = getSegmentCodes(segments);
+  const labels = getSegmentLabels(segments);
+  const parsed = text === null ? null : parseArrangement(text, segments);
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    const result = parseArrangement(value, segments);
+    if (result.invalidTokens.length === 0) {
+      onChange({ sequence: result.sequence });
+    }
+  };
+
+  const append = (segmentId: string) => {
+    onChange({ sequence: [...arrangement.sequence, segmentId] });
+    setText(null);
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-2">
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={arrangement.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="Arrangement name"
+          className="flex-1 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+          required
+        />
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input
+            type="radio"
+            checked={arrangement.is_default}
+            onChange={onMakeDefault}
+            className="text-indigo-600 focus:ring-indigo-500"
+          />
+          Default
+        </label>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-red-600 hover:text-red-700"
+          title="Remove arrangement"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={text ?? formatArrangement(arrangement.sequence, segments)}
+        onChange={(e) => handleTextChange(e.target.value)}
+        onBlur={() => setText(null)}
+        placeholder="e.g. V1 C V2 C B C C"
+        className={`block w-full font-mono text-sm rounded-md shadow-sm focus:ring-indigo-500 ${
+          parsed?.invalidTokens.length ? 'border-red-400 focus:border-red-500' : 'border-gray-300 focus:border-indigo-500'
+        }`}
+      />
+      {parsed && parsed.invalidTokens.length > 0 && (
+        <p className="text-xs text-red-600">Unknown: {parsed.invalidTokens.join(', ')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-400 mr-1">Append:</span>
+        {segments.map(segment => (
+          <button
+            key={segment.id}
+            type="button"
+            onClick={() => append(segment.id)}
+            className={`px-2 py-0.5 text-xs font-mono rounded border border-transparent hover:border-indigo-400 ${SEGMENT_TYPE_COLORS[segment.type]}`}
+            title={labels.get(segment.id)}
+          >
+            {codes.get(segment.id)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ArrangementEditor({ segments, arrangements, onChange }: ArrangementEditorProps) {
+  const update = (index: number, changes: Partial<DraftArrangement>) => {
+    onChange(arrangements.map((arrangement, i) => (i === index ? { ...arrangement, ...changes } : arrangement)));
+  };
+
+  const makeDefault = (index: number) => {
+    onChange(arrangements.map((arrangement, i) => ({ ...arrangement, is_default: i === index })));
+  };
+
+  const remove = (index: number) => {
+    const remaining = arrangements.filter((_, i) => i !== index);
+    if (remaining.length > 0 && !remaining.some(a => a.is_default)) {
+      remaining[0] = { ...remaining[0], is_default: true };
+    }
+    onChange(remaining);
+  };
+
+  const add = () => {
+    onChange([
+      ...arrangements,
+      {
+        id: crypto.randomUUID(),
+        name: arrangements.length === 0 ? 'Default' : `Arrangement ${arrangements.length + 1}`,
+        sequence: segments.map(segment => segment.id),
+        is_default: arrangements.length === 0
+      }
+    ]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Arrangements</h3>
+        <span className="text-xs text-gray-400">
+          {arrangements.length === 0 ? 'Segments play once, in order' : 'Play order used in the control panel'}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {arrangements.map((arrangement, index) => (
+          <ArrangementRow
+            key={arrangement.id}
+            arrangement={arrangement}
+            segments={segments}
+            onChange={(changes) => update(index, changes)}
+            onMakeDefault={() => makeDefault(index)}
+            onRemove={() => remove(index)}
+          />
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={add}
+        disabled={segments.length === 0}
+        className="mt-3 flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add Arrangement
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Settings, Users, Image, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { ThemeManager } from './ThemeManager';
 import type { Church, User } from '../types';
 
 export function ChurchSettings() {
@@ -66,7 +67,8 @@ export function ChurchSettings() {
           .from('churches')
           .update({
             name: church.name,
-            theme: church.theme
+            theme: church.theme,
+            logo_url: church.logo_url || null
           })
           .eq('id', church.id);
       } else {
@@ -75,7 +77,8 @@ export function ChurchSettings() {
           .from('churches')
           .insert([{
             name: church.name,
-            theme: church.theme
+            theme: church.theme,
+            logo_url: church.logo_url || null
           }])
           .select();
       }
@@ -224,31 +227,55 @@ export function ChurchSettings() {
         </div>
 
         <div className="bg-white rounded-lg shadow-md p-6">
-          <div className="flex items-center gap-2 mb-4">
-            <Image className="w-5 h-5 text-indigo-600" />
-            <h2 className="text-lg font-medium">Branding</h2>
-          </div>
-          
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700">
-                Church Logo
-              </label>
-              <div className="mt-1 flex items-center">
-                <div className="h-32 w-32 rounded-lg border-2 border-dashed border-gray-300 flex items-center justify-center">
-                  <button 
-                    type="button"
-                    className="text-sm text-gray-600 hover:text-indigo-600"
-                    onClick={() => alert('Logo upload functionality coming soon!')}
-                  >
-                    Upload Logo
-                  </button>
-                </div>
+          <form onSubmit={handleChurchUpdate}>
+            <div className="flex items-center gap-2 mb-4">
+              <Image className="w-5 h-5 text-indigo-600" />
+              <h2 className="text-lg font-medium">Branding</h2>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Church Logo URL
+                </label>
+                <input
+                  type="url"
+                  value={church.logo_url ?? ''}
+                  onChange={(e) => setChurch({ ...church, logo_url: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  placeholder="https://…"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Shown on logo screens and as a slide watermark when a theme turns it on.
+                </p>
+              </div>
+
+              <div className="h-32 w-32 rounded-lg border-2 border-dashed border-gray-300 bg-black flex items-center justify-center overflow-hidden">
+                {church.logo_url ? (
+                  <img src={church.logo_url} alt="Church logo" className="max-h-full max-w-full object-contain" />
+                ) : (
+                  <span className="text-sm text-gray-400">No logo</span>
+                )}
               </div>
+
+              <button
+                type="submit"
+                disabled={loading || !church.id}
+                className="w-full mt-4 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Branding'}
+              </button>
             </div>
-          </div>
+          </form>
         </div>
 
+        <ThemeManager
+          churchId={church.id}
+          defaultThemeId={church.default_theme_id ?? null}
+          logoUrl={church.logo_url || null}
+          onDefaultChange={(themeId) => setChurch({ ...church, default_theme_id: themeId })}
+        />
+
         <div className="bg-white rounded-lg shadow-md p-6 md:col-span-2">
           <div className="flex items-center gap-2 mb-4">
             <Users className="w-5 h-5 text-indigo-600" />
@@ -1,30 +1,279 @@
-import React, { useEffect, useCallback } from 'react';
-import { ExternalLink, Play, X } from 'lucide-react';
-import { usePresentationStore } from '../store/presentationStore';
-import type { Song, SongSegment } from '../types';
+import { useEffect, useCallback, useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, BookOpen, ChevronLeft, ChevronRight, Eraser, ExternalLink, Image, Keyboard, Megaphone, MonitorOff, Moon, Music, Pencil, Play, Square, Sunset, Type, X } from 'lucide-react';
+import {
+  usePresentationStore,
+  getCurrentItem,
+  getItemTheme,
+  getNextSlide,
+  getStoredServiceId,
+  getThemedSlides
+} from '../store/presentationStore';
+import { getDefaultArrangement, getSegmentCodes } from '../lib/arrangements';
+import { countMissingSongs, formatServiceDate, loadService, loadServices } from '../lib/services';
+import { getItemSubtitle, getItemTitle, isEditableItem, newQueueItem, type EditableQueueItem } from '../lib/slides';
+import { inheritedThemeLabel, loadChurchPresentation } from '../lib/themes';
+import {
+  getLineCursor,
+  getSlideLines,
+  LINE_STEP_OPTIONS,
+  loadLineDisplays,
+  saveLineDisplays
+} from '../lib/lineStepping';
+import { presentationTransport } from '../lib/transport';
+import { languageName } from '../lib/songMetadata';
+import {
+  getTranslationLanguage,
+  getTranslationLanguages,
+  LANGUAGE_MODE_LABELS,
+  loadSlideLanguages,
+  nextLanguageMode,
+  saveSlideLanguages
+} from '../lib/translations';
+import {
+  findKeyAction,
+  keyFromEvent,
+  loadKeyBindings,
+  saveKeyBindings,
+  SEGMENT_KEY_ACTIONS,
+  segmentIndexFromKey,
+  type KeyBindings
+} from '../lib/keyBindings';
+import { KeyboardHelp } from './KeyboardHelp';
+import { OutputsPanel } from './OutputsPanel';
+import { QueueItemEditor } from './QueueItemEditor';
+import { ScriptureLookup } from './ScriptureLookup';
+import { SlidePreview } from './SlidePreview';
+import { SlideTile } from './SlideTile';
+import { ThemeSelect } from './ThemeSelect';
+import type {
+  DisplayOverlay,
+  LanguageMode,
+  LineDisplay,
+  OutputRole,
+  QueueItemType,
+  Service,
+  SlideLanguages
+} from '../types';
+
+const QUEUE_ITEM_ICONS: Record<QueueItemType, typeof Music> = {
+  song: Music,
+  text: Type,
+  announcement: Megaphone,
+  blank: MonitorOff,
+  scripture: BookOpen
+};
+
+const OVERLAY_BUTTONS: Array<{ overlay: DisplayOverlay; fade: boolean; label: string; icon: typeof Music }> = [
+  { overlay: 'black', fade: false, label: 'Black', icon: Square },
+  { overlay: 'clear', fade: false, label: 'Clear', icon: Eraser },
+  { overlay: 'logo', fade: false, label: 'Logo', icon: Image },
+  { overlay: 'black', fade: true, label: 'Fade', icon: Moon },
+  { overlay: 'logo', fade: true, label: 'Fade Logo', icon: Sunset }
+];
 
 export function ControlPanel() {
   const { 
-    currentSong, 
-    currentSegment, 
+    currentSlide,
+    currentItemId,
+    currentIndex,
+    lineStep,
+    lineCursor,
+    lineDisplays,
+    languages,
+    logoUrl,
+    theme,
+    themes,
+    defaultThemeId,
     queue, 
-    setCurrentSong, 
-    setCurrentSegment, 
+    activeService,
+    queueSaveError,
+    retryQueueSave,
+    outputs,
+    setOutputs,
+    selectQueueItem,
+    goToSlide,
+    nextSlide,
+    previousSlide,
+    nextSegmentOfType,
+    goToSegment,
+    setLineStep,
+    setLineCursor,
+    setLineDisplays,
+    setLanguages,
+    overlay,
+    toggleOverlay,
+    stageMessage,
+    setStageMessage,
+    addQueueItem,
+    updateQueueItem,
     removeFromQueue,
+    setQueueItemArrangement,
+    setQueueItemTheme,
+    loadService: loadServiceIntoQueue,
+    unloadService,
+    setLogoUrl,
+    setThemes,
     setPresentationWindow
   } = usePresentationStore();
+  const [services, setServices] = useState<Service[]>([]);
+  // Planned songs deleted from the library, for the service last opened here
+  const [missingSongs, setMissingSongs] = useState<{ serviceId: string; count: number } | null>(null);
+  const [editingItem, setEditingItem] = useState<EditableQueueItem | null>(null);
+  const [showScripture, setShowScripture] = useState(false);
+  const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings);
+
+  const currentItem = getCurrentItem({ queue, currentItemId });
+  const slides = useMemo(
+    () => getThemedSlides({ themes, defaultThemeId, languages }, currentItem),
+    [themes, defaultThemeId, languages, currentItem]
+  );
+  const upNext = getNextSlide({ queue, currentItemId, currentIndex, themes, defaultThemeId, languages });
+  const liveLines = getSlideLines(currentSlide);
+  const lineCursorRange = getLineCursor(currentSlide, lineStep, lineCursor);
+  const segmentCodes = useMemo(
+    () => getSegmentCodes(currentItem?.type === 'song' ? currentItem.song.segments : []),
+    [currentItem]
+  );
+  const translationLanguages = currentItem?.type === 'song' ? getTranslationLanguages(currentItem.song.segments) : [];
+  const shownTranslation = currentItem?.type === 'song' ? getTranslationLanguage(currentItem.song, languages.translation) : null;
 
-  const sendToPresentationWindow = useCallback((data: any) => {
-    const presentationWindow = usePresentationStore.getState().presentationWindow;
-    if (presentationWindow && !presentationWindow.closed) {
-      console.log('Sending to presentation window:', data);
-      presentationWindow.postMessage({
-        type: 'presentationUpdate',
-        data
-      }, window.location.origin);
+  const openService = useCallback(async (serviceId: string) => {
+    try {
+      const service = await loadService(serviceId);
+      if (service) {
+        loadServiceIntoQueue(service);
+        setMissingSongs({ serviceId: service.id, count: countMissingSongs(service) });
+      } else {
+        unloadService();
+      }
+    } catch (error) {
+      console.error('Error loading service:', error);
     }
+  }, [loadServiceIntoQueue, unloadService]);
+
+  // Restore the last loaded service so a page refresh keeps the set list
+  useEffect(() => {
+    loadServices()
+      .then(setServices)
+      .catch(error => console.error('Error loading services:', error));
+
+    const storedServiceId = getStoredServiceId();
+    if (storedServiceId && usePresentationStore.getState().queue.length === 0) {
+      openService(storedServiceId);
+    }
+  }, [openService]);
+
+  useEffect(() => {
+    loadChurchPresentation()
+      .then(church => {
+        setLogoUrl(church.logoUrl);
+        setThemes(church.themes, church.defaultThemeId);
+      })
+      .catch(error => console.error('Error loading church themes:', error));
+  }, [setLogoUrl, setThemes]);
+
+  // This browser's choice of how each output follows the line cursor
+  useEffect(() => {
+    setLineDisplays(loadLineDisplays());
+  }, [setLineDisplays]);
+
+  const handleLineDisplayChange = useCallback((role: OutputRole, display: LineDisplay) => {
+    const updated = { ...usePresentationStore.getState().lineDisplays, [role]: display };
+    saveLineDisplays(updated);
+    setLineDisplays(updated);
+  }, [setLineDisplays]);
+
+  // Likewise which languages songs are shown in
+  useEffect(() => {
+    setLanguages(loadSlideLanguages());
+  }, [setLanguages]);
+
+  const handleLanguagesChange = useCallback((changes: Partial<SlideLanguages>) => {
+    const updated = { ...usePresentationStore.getState().languages, ...changes };
+    saveSlideLanguages(updated);
+    setLanguages(updated);
+  }, [setLanguages]);
+
+  // Joins the church's control room, where display connections are announced
+  useEffect(() => {
+    const removeOutputsHandler = presentationTransport.onOutputs(setOutputs);
+    presentationTransport.registerControl()
+      .catch(error => console.error('Error registering control panel:', error));
+    return () => {
+      removeOutputsHandler();
+    };
+  }, [setOutputs]);
+
+  const handleKeyBindingsChange = useCallback((bindings: KeyBindings) => {
+    setKeyBindings(bindings);
+    saveKeyBindings(bindings);
   }, []);
 
+  const closeKeyboardHelp = useCallback(() => setShowKeyboardHelp(false), []);
+
+  // Global shortcuts, paused while a dialog is open or a field has focus
+  useEffect(() => {
+    if (showKeyboardHelp || showScripture || editingItem) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = keyFromEvent(event);
+      if (!key) return;
+
+      const segmentIndex = segmentIndexFromKey(key);
+      if (segmentIndex !== null) {
+        event.preventDefault();
+        goToSegment(segmentIndex);
+        return;
+      }
+
+      const action = findKeyAction(keyBindings, key);
+      if (!action) return;
+      event.preventDefault();
+
+      const segmentType = SEGMENT_KEY_ACTIONS[action];
+      if (segmentType) return nextSegmentOfType(segmentType);
+
+      switch (action) {
+        case 'next': return nextSlide();
+        case 'previous': return previousSlide();
+        case 'black': return toggleOverlay('black');
+        case 'clear': return toggleOverlay('clear');
+        case 'logo': return toggleOverlay('logo');
+        case 'fadeBlack': return toggleOverlay('black', true);
+        case 'fadeLogo': return toggleOverlay('logo', true);
+        case 'languages': return handleLanguagesChange({ mode: nextLanguageMode(usePresentationStore.getState().languages.mode) });
+        case 'help': return setShowKeyboardHelp(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    keyBindings,
+    showKeyboardHelp,
+    showScripture,
+    editingItem,
+    nextSlide,
+    previousSlide,
+    nextSegmentOfType,
+    goToSegment,
+    toggleOverlay,
+    handleLanguagesChange
+  ]);
+
+  const handleSaveItem = (item: EditableQueueItem) => {
+    if (queue.some(i => i.id === item.id)) {
+      updateQueueItem(item);
+    } else {
+      addQueueItem(item);
+    }
+    setEditingItem(null);
+  };
+
   const openPresentationWindow = useCallback(() => {
     // Close existing window if any
     const existingWindow = usePresentationStore.getState().presentationWindow;
@@ -52,27 +301,11 @@ export function ControlPanel() {
       newWindow.focus();
       setPresentationWindow(newWindow);
 
-      // Send current state when presentation window is ready
-      const handlePresentationReady = (event: MessageEvent) => {
-        // Only accept messages from our origin
-        if (event.origin !== origin) return;
-        
-        if (event.data?.type === 'presentationReady') {
-          console.log('Presentation window ready, sending initial state');
-          sendToPresentationWindow({
-            song: currentSong,
-            segment: currentSegment
-          });
-        }
-      };
-
-      window.addEventListener('message', handlePresentationReady);
-
-      // Clean up event listener when window closes
+      // The window picks up the current state from this panel over the
+      // local channel; forget it once it closes
       const checkWindow = setInterval(() => {
         if (newWindow.closed) {
           console.log('Presentation window closed');
-          window.removeEventListener('message', handlePresentationReady);
           clearInterval(checkWindow);
           setPresentationWindow(null);
         }
@@ -80,7 +313,7 @@ export function ControlPanel() {
     } else {
       console.warn('Failed to open presentation window');
     }
-  }, [currentSong, currentSegment, setPresentationWindow, sendToPresentationWindow]);
+  }, [setPresentationWindow]);
 
   // Clean up when component unmounts
   useEffect(() => {
@@ -93,73 +326,169 @@ export function ControlPanel() {
     };
   }, [setPresentationWindow]);
 
-  const handleSelectSong = useCallback((song: Song) => {
-    setCurrentSong(song);
-    if (song.segments && song.segments.length > 0) {
-      setCurrentSegment(song.segments[0]);
-    }
-  }, [setCurrentSong, setCurrentSegment]);
-
-  const handleSelectSegment = useCallback((segment: SongSegment) => {
-    setCurrentSegment(segment);
-  }, [setCurrentSegment]);
-
   return (
     <div className="grid grid-cols-12 gap-6">
       <div className="col-span-8">
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">Current Presentation</h2>
-            <button
-              onClick={openPresentationWindow}
-              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
-            >
-              <ExternalLink className="w-4 h-4" />
-              Open Presentation Window
-            </button>
+            <div className="flex items-center gap-2">
+              {OVERLAY_BUTTONS.map(({ overlay: value, fade, label, icon: Icon }) => (
+                <button
+                  key={`${value}-${fade}`}
+                  onClick={() => toggleOverlay(value, fade)}
+                  className={`flex items-center gap-1 px-3 py-2 rounded-lg border text-sm ${
+                    overlay === value && !fade
+                      ? 'bg-gray-900 border-gray-900 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                  title={fade ? `Fade to ${value} and back (toggle)` : `${label} (toggle)`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowKeyboardHelp(true)}
+                className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                title="Keyboard shortcuts"
+              >
+                <Keyboard className="w-5 h-5" />
+              </button>
+              <button
+                onClick={openPresentationWindow}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Open Presentation Window
+              </button>
+            </div>
+          </div>
+
+          {/* Live and Next Previews */}
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <SlidePreview
+              label="Live"
+              caption={currentItem ? getItemTitle(currentItem) : undefined}
+              slide={currentSlide}
+              logoUrl={logoUrl}
+              theme={theme}
+              overlay={overlay}
+              highlight
+            />
+            <SlidePreview
+              label="Next"
+              caption={upNext ? getItemTitle(upNext.item) : 'End of queue'}
+              slide={upNext?.slide ?? null}
+              logoUrl={logoUrl}
+              theme={getItemTheme({ themes, defaultThemeId }, upNext?.item ?? null)}
+            />
           </div>
 
           <div className="bg-gray-50 rounded-lg p-4">
-            {currentSong ? (
+            {currentItem ? (
               <div>
-                <h3 className="text-lg font-medium mb-4">{currentSong.title}</h3>
-                
-                {/* Segments Grid */}
-                <div className="grid grid-cols-2 gap-4 mb-4">
-                  {currentSong.segments.sort((a, b) => a.order_num - b.order_num).map((segment) => (
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium">{getItemTitle(currentItem)}</h3>
+                  <div className="flex items-center gap-2">
+                    {translationLanguages.length > 0 && (
+                      <>
+                        <select
+                          value={languages.mode}
+                          onChange={(e) => handleLanguagesChange({ mode: e.target.value as LanguageMode })}
+                          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                          title="Languages shown"
+                        >
+                          {(Object.keys(LANGUAGE_MODE_LABELS) as LanguageMode[]).map(mode => (
+                            <option key={mode} value={mode}>{LANGUAGE_MODE_LABELS[mode]}</option>
+                          ))}
+                        </select>
+                        {languages.mode !== 'original' && (
+                          <select
+                            value={shownTranslation ?? ''}
+                            onChange={(e) => handleLanguagesChange({ translation: e.target.value })}
+                            disabled={translationLanguages.length < 2}
+                            className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                            title="Translation shown"
+                          >
+                            {translationLanguages.map(language => (
+                              <option key={language} value={language}>{languageName(language)}</option>
+                            ))}
+                          </select>
+                        )}
+                      </>
+                    )}
+                    <select
+                      value={lineStep}
+                      onChange={(e) => setLineStep(Number(e.target.value))}
+                      className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      title="What next and previous step through"
+                    >
+                      {LINE_STEP_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
                     <button
-                      key={segment.id}
-                      onClick={() => handleSelectSegment(segment)}
-                      className={`p-4 rounded-lg text-left transition-colors ${
-                        currentSegment?.id === segment.id
-                          ? 'bg-indigo-100 border-2 border-indigo-500'
-                          : 'bg-white hover:bg-indigo-50'
-                      }`}
+                      onClick={previousSlide}
+                      disabled={currentIndex <= 0 && queue.indexOf(currentItem) === 0}
+                      className="p-2 rounded-lg bg-white shadow-sm hover:bg-indigo-50 disabled:opacity-50"
+                      title="Previous slide"
                     >
-                      <div className="text-sm font-medium text-gray-500 mb-1">
-                        {segment.type} {segment.order_num}
-                      </div>
-                      <div className="text-gray-800 line-clamp-3">
-                        {segment.content}
-                      </div>
+                      <ChevronLeft className="w-5 h-5" />
                     </button>
-                  ))}
+                    <span className="text-sm text-gray-500 w-16 text-center">
+                      {slides.length ? `${currentIndex + 1} / ${slides.length}` : '–'}
+                    </span>
+                    <button
+                      onClick={nextSlide}
+                      disabled={currentIndex >= slides.length - 1 && queue.indexOf(currentItem) === queue.length - 1}
+                      className="p-2 rounded-lg bg-white shadow-sm hover:bg-indigo-50 disabled:opacity-50"
+                      title="Next slide"
+                    >
+                      <ChevronRight className="w-5 h-5" />
+                    </button>
+                  </div>
                 </div>
+                
+                {/* Line cursor, while stepping line by line */}
+                {lineCursorRange && (
+                  <ol className="mb-4 rounded-lg bg-white p-2 shadow-sm">
+                    {liveLines.map((line, index) => {
+                      const current = index >= lineCursorRange.start && index < lineCursorRange.start + lineCursorRange.count;
+                      return (
+                        <li key={index}>
+                          <button
+                            onClick={() => setLineCursor(index)}
+                            className={`w-full text-left px-3 py-1 rounded-md ${
+                              current ? 'bg-indigo-100 text-indigo-900 font-medium' : 'text-gray-600 hover:bg-indigo-50'
+                            }`}
+                          >
+                            {line}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
 
-                {/* Current Segment Display */}
-                <div className="bg-white rounded-lg p-6 shadow-sm">
-                  <div className="text-sm font-medium text-gray-500 mb-2">
-                    {currentSegment?.type} {currentSegment?.order_num}
-                  </div>
-                  <div className="text-xl leading-relaxed whitespace-pre-line">
-                    {currentSegment?.content || 'Select a segment to display'}
-                  </div>
+                {/* Slides Grid */}
+                <div className="grid grid-cols-2 gap-4">
+                  {slides.map((slide, index) => (
+                    <SlideTile
+                      key={slide.type === 'song' ? `${slide.segment.id}-${index}` : index}
+                      slide={slide}
+                      code={slide.type === 'song' ? segmentCodes.get(slide.segment.id) : undefined}
+                      active={currentIndex === index}
+                      logoUrl={logoUrl}
+                      onClick={() => goToSlide(index)}
+                    />
+                  ))}
                 </div>
               </div>
             ) : (
               <div className="flex flex-col items-center justify-center h-[300px] text-gray-500">
                 <Play className="w-12 h-12 mb-2" />
-                <p>No song selected</p>
+                <p>Nothing selected</p>
               </div>
             )}
           </div>
@@ -167,46 +496,183 @@ export function ControlPanel() {
       </div>
 
       <div className="col-span-4">
+        <OutputsPanel
+          outputs={outputs}
+          lineDisplays={lineDisplays}
+          onLineDisplayChange={handleLineDisplayChange}
+          stageMessage={stageMessage}
+          onStageMessageChange={setStageMessage}
+          onOpenMain={openPresentationWindow}
+        />
+
         <div className="bg-white rounded-lg shadow-md p-6">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">Queue</h2>
           </div>
 
-          <div className="space-y-2">
-            {queue.map((song) => (
-              <div
-                key={song.id}
-                className="group p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+          <select
+            value={activeService?.id ?? ''}
+            onChange={(e) => (e.target.value ? openService(e.target.value) : unloadService())}
+            className="mb-4 w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="">No service loaded</option>
+            {services.map(service => (
+              <option key={service.id} value={service.id}>
+                {formatServiceDate(service.service_date)} – {service.name}
+              </option>
+            ))}
+          </select>
+
+          {missingSongs && missingSongs.serviceId === activeService?.id && missingSongs.count > 0 && (
+            <div className="mb-4 bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded-md text-sm text-yellow-800 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {missingSongs.count === 1
+                ? 'A planned song has been deleted from the library and is left out of the queue.'
+                : `${missingSongs.count} planned songs have been deleted from the library and are left out of the queue.`}
+            </div>
+          )}
+
+          {queueSaveError && (
+            <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4 rounded-md">
+              <div className="flex items-center">
+                <AlertCircle className="w-5 h-5 text-red-400 mr-2 shrink-0" />
+                <p className="text-red-700 text-sm">Queue changes weren't saved to the service: {queueSaveError}</p>
+              </div>
+              <button
+                onClick={retryQueueSave}
+                className="mt-2 text-sm text-red-600 hover:text-red-800 font-medium"
               >
-                <div className="flex justify-between items-center">
-                  <div 
-                    className="flex-1 cursor-pointer"
-                    onClick={() => handleSelectSong(song)}
-                  >
-                    <h4 className="font-medium">{song.title}</h4>
-                    <p className="text-sm text-gray-500">{song.author}</p>
-                    <p className="text-xs text-gray-400 mt-1">
-                      {song.segments.length} segments
-                    </p>
+                Try Again
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-2 mb-4">
+            {(['text', 'announcement', 'blank'] as const).map(type => {
+              const Icon = QUEUE_ITEM_ICONS[type];
+              return (
+                <button
+                  key={type}
+                  onClick={() => setEditingItem(newQueueItem(type))}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Icon className="w-4 h-4" />
+                  {type === 'text' ? 'Slide' : type === 'announcement' ? 'Notice' : 'Blank'}
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setShowScripture(true)}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <BookOpen className="w-4 h-4" />
+              Bible
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {queue.map((item) => {
+              const Icon = QUEUE_ITEM_ICONS[item.type];
+              return (
+                <div
+                  key={item.id}
+                  className={`group p-3 rounded-lg ${
+                    item.id === currentItemId ? 'bg-indigo-50 ring-1 ring-indigo-300' : 'bg-gray-50 hover:bg-gray-100'
+                  }`}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <Icon className="w-4 h-4 text-gray-400 shrink-0" />
+                    <div 
+                      className="flex-1 min-w-0 cursor-pointer"
+                      onClick={() => selectQueueItem(item.id)}
+                    >
+                      <h4 className="font-medium truncate">{getItemTitle(item)}</h4>
+                      <p className="text-sm text-gray-500 truncate">{getItemSubtitle(item)}</p>
+                      {item.type === 'song' && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {getThemedSlides({ themes, defaultThemeId, languages }, item).length} slides
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {isEditableItem(item) && (
+                        <button
+                          onClick={() => setEditingItem(item)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                          title="Edit item"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => removeFromQueue(item.id)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Remove from queue"
+                      >
+                        <X className="w-5 h-5" />
+                      </button>
+                    </div>
                   </div>
-                  <button
-                    onClick={() => removeFromQueue(song.id)}
-                    className="opacity-0 group-hover:opacity-100 text-red-600 hover:text-red-700 transition-opacity"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
+                  {item.type === 'song' && (item.song.arrangements?.length ?? 0) > 1 && (
+                    <select
+                      value={item.arrangementId ?? getDefaultArrangement(item.song).id}
+                      onChange={(e) => setQueueItemArrangement(item.id, e.target.value)}
+                      className="mt-2 w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                      {item.song.arrangements!.map(arrangement => (
+                        <option key={arrangement.id} value={arrangement.id}>
+                          {arrangement.name}{arrangement.is_default ? ' (default)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {themes.length > 0 && (
+                    <ThemeSelect
+                      themes={themes}
+                      value={item.themeId}
+                      inheritedLabel={inheritedThemeLabel(themes, item.type === 'song' ? item.song.theme_id : null)}
+                      onChange={(themeId) => setQueueItemTheme(item.id, themeId)}
+                      className="mt-2 w-full text-sm"
+                    />
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
 
             {queue.length === 0 && (
               <div className="text-center py-8 text-gray-500">
-                No songs in queue
+                Queue is empty
               </div>
             )}
           </div>
         </div>
       </div>
+
+      {showKeyboardHelp && (
+        <KeyboardHelp
+          bindings={keyBindings}
+          onChange={handleKeyBindingsChange}
+          onClose={closeKeyboardHelp}
+        />
+      )}
+
+      {showScripture && (
+        <ScriptureLookup
+          onAdd={(item) => {
+            addQueueItem(item);
+            setShowScripture(false);
+          }}
+          onClose={() => setShowScripture(false)}
+        />
+      )}
+
+      {editingItem && (
+        <QueueItemEditor
+          item={editingItem}
+          onSave={handleSaveItem}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
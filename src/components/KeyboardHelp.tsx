@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import {
+  bindKey,
+  formatKey,
+  keyFromEvent,
+  KEY_ACTION_LABELS,
+  resetKeyBindings,
+  type KeyAction,
+  type KeyBindings
+} from '../lib/keyBindings';
+
+interface KeyboardHelpProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+function KeyCap({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 text-sm font-mono text-gray-700">
+      {children}
+    </kbd>
+  );
+}
+
+export function KeyboardHelp({ bindings, onChange, onClose }: KeyboardHelpProps) {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        if (capturing) setCapturing(null);
+        else onClose();
+        return;
+      }
+
+      if (!capturing) return;
+      event.preventDefault();
+      const key = keyFromEvent(event);
+      if (!key) return;
+      onChange(bindKey(bindings, capturing, key));
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, capturing, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Keyboard className="w-5 h-5" />
+            Keyboard Shortcuts
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <table className="w-full">
+            <tbody className="divide-y divide-gray-100">
+              {(Object.keys(KEY_ACTION_LABELS) as KeyAction[]).map(action => (
+                <tr key={action}>
+                  <td className="py-2 text-gray-700">{KEY_ACTION_LABELS[action]}</td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {capturing === action ? (
+                        <span className="text-sm text-indigo-600">Press a key… (Esc to cancel)</span>
+                      ) : bindings[action].length > 0 ? (
+                        bindings[action].map(key => <KeyCap key={key}>{formatKey(key)}</KeyCap>)
+                      ) : (
+                        <span className="text-sm text-gray-400">Not set</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setCapturing(action)}
+                      className="text-sm text-indigo-600 hover:text-indigo-800"
+                    >
+                      Change
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-2 text-gray-700">Go to segment 1–10</td>
+                <td className="py-2" colSpan={2}>
+                  <div className="flex gap-1">
+                    <KeyCap>1</KeyCap>…<KeyCap>9</KeyCap><KeyCap>0</KeyCap>
+                  </div>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="mt-4 text-sm text-gray-500">
+            Next and previous continue into the neighbouring queue item. Black, clear, logo and the fades
+            toggle; going to any slide brings the display back. Number keys count a split segment once and
+            land on its first slide; in scripture they count slides. Shortcuts are saved in this browser only.
+          </p>
+        </div>
+
+        <div className="flex justify-between gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={() => onChange(resetKeyBindings())}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
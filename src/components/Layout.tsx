@@ -1,6 +1,6 @@
-import React from 'react';
 import { Outlet, Link } from 'react-router-dom';
-import { Church, MonitorPlay, Music, Settings } from 'lucide-react';
+import { BarChart3, CalendarDays, Church, MonitorPlay, Music, Settings } from 'lucide-react';
+import { SyncStatus } from './SyncStatus';
 
 export function Layout() {
   return (
@@ -27,6 +27,20 @@ export function Layout() {
               <Music className="w-5 h-5" />
               Song Library
             </Link>
+            <Link
+              to="/services"
+              className="flex items-center gap-2 p-2 rounded-lg hover:bg-indigo-50 text-gray-700 hover:text-indigo-600"
+            >
+              <CalendarDays className="w-5 h-5" />
+              Services
+            </Link>
+            <Link
+              to="/reports"
+              className="flex items-center gap-2 p-2 rounded-lg hover:bg-indigo-50 text-gray-700 hover:text-indigo-600"
+            >
+              <BarChart3 className="w-5 h-5" />
+              Song Usage
+            </Link>
             <Link
               to="/settings"
               className="flex items-center gap-2 p-2 rounded-lg hover:bg-indigo-50 text-gray-700 hover:text-indigo-600"
@@ -36,6 +50,7 @@ export function Layout() {
             </Link>
           </nav>
         </div>
+        <SyncStatus />
       </aside>
       
       <main className="flex-1 overflow-auto">
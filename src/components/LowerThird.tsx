@@ -0,0 +1,44 @@
+import { DEFAULT_THEME_SETTINGS, themeText } from '../lib/themes';
+import { getSlideText } from '../lib/slides';
+import type { DisplayOverlay, PresentationThemeSettings, Slide } from '../types';
+
+interface LowerThirdProps {
+  slide: Slide | null;
+  theme?: PresentationThemeSettings;
+  overlay?: DisplayOverlay | null;
+}
+
+const LOWER_THIRD_FONT_SIZE = 52;
+
+// Only words are shown over the livestream; announcements, logos and black
+// screens are for the room
+function getCaption(slide: Slide | null): string {
+  if (slide?.type !== 'song' && slide?.type !== 'text' && slide?.type !== 'scripture') return '';
+  return getSlideText(slide)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join(' / ');
+}
+
+// A single line of text along the bottom of a transparent stage, for keying
+// over video. Any overlay hides it, as it does the main screen's text.
+export function LowerThird({ slide, theme = DEFAULT_THEME_SETTINGS, overlay = null }: LowerThirdProps) {
+  const caption = overlay ? '' : getCaption(slide);
+  if (!caption) return null;
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 px-24 pb-16 flex justify-center">
+      <div
+        className="max-w-full px-10 py-4 rounded-lg bg-black/60 truncate"
+        style={{
+          ...themeText(theme),
+          fontSize: LOWER_THIRD_FONT_SIZE,
+          textAlign: 'center'
+        }}
+      >
+        {caption}
+      </div>
+    </div>
+  );
+}
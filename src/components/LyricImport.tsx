@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Upload, X } from 'lucide-react';
+import { handleSupabaseError } from '../lib/supabase';
+import { saveSong } from '../lib/songs';
+import { importedSongToDraft, parseLyrics } from '../lib/lyricImport';
+import { SEGMENT_TYPE_LABELS } from '../lib/segmentTypes';
+
+interface LyricImportProps {
+  onClose: () => void;
+  onSaved: (songId: string) => void;
+}
+
+const ACCEPTED_FILES = '.txt,.cho,.chordpro,.chopro,.crd,.pro';
+
+export function LyricImport({ onClose, onSaved }: LyricImportProps) {
+  const [text, setText] = useState('');
+  const [keepChords, setKeepChords] = useState(false);
+  const [titleOverride, setTitleOverride] = useState<string | null>(null);
+  const [authorOverride, setAuthorOverride] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => parseLyrics(text, { keepChords }), [text, keepChords]);
+  const title = titleOverride ?? parsed.title;
+  const author = authorOverride ?? parsed.author;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setTitleOverride(null);
+      setAuthorOverride(null);
+    } catch (err) {
+      console.error('Error reading lyric file:', err);
+      setError('Could not read that file.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+
+    if (!title.trim()) {
+      setError('Please enter a song title.');
+      return;
+    }
+
+    if (parsed.segments.length === 0) {
+      setError('No lyrics were found to import.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const songId = await saveSong({ ...importedSongToDraft(parsed), title, author });
+      onSaved(songId);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold">Import Lyrics</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border-l-4 border-red-400 p-4 rounded-md flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2 gap-6 px-6 py-4">
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm text-gray-600">
+                Paste plain text with <code>[Verse 1]</code> or <code>Chorus:</code> headers, or a ChordPro chart.
+              </p>
+              <label className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 cursor-pointer">
+                <Upload className="w-4 h-4" />
+                Open file
+                <input type="file" accept={ACCEPTED_FILES} onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'Amazing Grace\nJohn Newton\n\n[Verse 1]\nAmazing grace, how sweet the sound\n...'}
+              className="flex-1 min-h-[300px] font-mono text-sm rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={keepChords}
+                onChange={(e) => setKeepChords(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Keep chords (stored inline, e.g. <code>[G]Amazing</code>)
+            </label>
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Preview</h3>
+              {text.trim() && (
+                <span className="text-xs text-gray-400 uppercase tracking-wide">
+                  {parsed.format === 'chordpro' ? 'ChordPro' : 'Plain text'}
+                </span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitleOverride(e.target.value)}
+                placeholder="Title"
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <input
+                type="text"
+                value={author}
+                onChange={(e) => setAuthorOverride(e.target.value)}
+                placeholder="Author"
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+
+            {parsed.warnings.length > 0 && (
+              <div className="mb-3 bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded-md text-sm text-yellow-800">
+                {parsed.warnings.map(warning => (
+                  <div key={warning} className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-3 bg-gray-50 rounded-lg p-3">
+              {parsed.segments.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  Segments will appear here as you paste lyrics.
+                </div>
+              ) : (
+                parsed.segments.map((segment, index) => (
+                  <div key={index} className="bg-white rounded-lg p-3 shadow-sm">
+                    <div className="text-sm font-medium text-gray-500 mb-1">
+                      {segment.label}
+                      {segment.label.toLowerCase() !== SEGMENT_TYPE_LABELS[segment.type].toLowerCase() &&
+                        !segment.label.toLowerCase().startsWith(SEGMENT_TYPE_LABELS[segment.type].toLowerCase()) && (
+                          <span className="ml-2 text-xs text-gray-400">
+                            as {SEGMENT_TYPE_LABELS[segment.type]}
+                          </span>
+                        )}
+                    </div>
+                    <div className="text-gray-800 whitespace-pre-line text-sm">
+                      {segment.content}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || parsed.segments.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : `Import ${parsed.segments.length} Segment${parsed.segments.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ExternalLink, Send, X } from 'lucide-react';
+import { LINE_DISPLAY_LABELS } from '../lib/lineStepping';
+import type { ConnectedOutput, LineDisplay, OutputRole } from '../types';
+
+interface OutputsPanelProps {
+  outputs: ConnectedOutput[];
+  lineDisplays: Record<OutputRole, LineDisplay>;
+  onLineDisplayChange: (role: OutputRole, display: LineDisplay) => void;
+  stageMessage: string;
+  onStageMessageChange: (message: string) => void;
+  // The main screen opens in a window the control panel keeps track of
+  onOpenMain: () => void;
+}
+
+const OUTPUTS: Array<{ role: OutputRole; label: string; path: string }> = [
+  { role: 'main', label: 'Main screen', path: '/present' },
+  { role: 'stage', label: 'Stage display', path: '/present/stage' },
+  { role: 'lower-third', label: 'Lower third', path: '/present/lower-third' }
+];
+
+export function OutputsPanel({
+  outputs,
+  lineDisplays,
+  onLineDisplayChange,
+  stageMessage,
+  onStageMessageChange,
+  onOpenMain
+}: OutputsPanelProps) {
+  const [draft, setDraft] = useState(stageMessage);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onStageMessageChange(draft.trim());
+  };
+
+  const clearMessage = () => {
+    setDraft('');
+    onStageMessageChange('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4">Outputs</h2>
+
+      <ul className="space-y-3 mb-4">
+        {OUTPUTS.map(({ role, label, path }) => {
+          const count = outputs.filter(output => output.role === role).length;
+          return (
+            <li key={role} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className={`w-2.5 h-2.5 rounded-full ${count ? 'bg-green-500' : 'bg-gray-300'}`} />
+                <span className="flex-1 font-medium">{label}</span>
+                <span className="text-gray-500">
+                  {count ? `${count} connected` : 'Not connected'}
+                </span>
+                {role === 'main' ? (
+                  <button
+                    onClick={onOpenMain}
+                    className="text-indigo-600 hover:text-indigo-800"
+                    title={`Open ${label.toLowerCase()}`}
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <a
+                    href={path}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-indigo-600 hover:text-indigo-800"
+                    title={`Open ${label.toLowerCase()}`}
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </div>
+              <select
+                value={lineDisplays[role]}
+                onChange={(e) => onLineDisplayChange(role, e.target.value as LineDisplay)}
+                className="mt-1 w-full rounded-md border-gray-300 text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                title="How this output follows line-by-line stepping"
+              >
+                {(Object.keys(LINE_DISPLAY_LABELS) as LineDisplay[]).map(display => (
+                  <option key={display} value={display}>{LINE_DISPLAY_LABELS[display]}</option>
+                ))}
+              </select>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit}>
+        <label htmlFor="stage-message" className="block text-sm font-medium text-gray-700 mb-1">
+          Stage message
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="stage-message"
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="e.g. Repeat the chorus"
+            className="flex-1 min-w-0 rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={draft.trim() === stageMessage}
+            className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            title="Show on the stage display"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={clearMessage}
+            disabled={!stageMessage && !draft}
+            className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            title="Clear message"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {stageMessage && (
+          <p className="mt-2 text-sm text-gray-500 truncate">Showing: {stageMessage}</p>
+        )}
+      </form>
+    </div>
+  );
+}
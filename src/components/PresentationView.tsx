@@ -1,11 +1,42 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { socketService } from '../lib/socket';
-import type { Song, SongSegment } from '../types';
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { presentationTransport } from '../lib/transport';
+import { LowerThird } from './LowerThird';
+import { SlideRenderer } from './SlideRenderer';
+import { SlideStage } from './SlideStage';
+import { StageDisplay } from './StageDisplay';
+import { TransitionStage } from './TransitionStage';
+import { DEFAULT_THEME_SETTINGS } from '../lib/themes';
+import { DEFAULT_LINE_DISPLAYS, showCurrentLines } from '../lib/lineStepping';
+import type { DisplayOverlay, LineCursor, LineDisplay, OutputRole, PresentationThemeSettings, Slide } from '../types';
 
-export function PresentationView() {
+const FADE_DURATION = 1500;
+const MAX_RECENT_UPDATES = 50;
+
+interface PresentationViewProps {
+  role?: OutputRole;
+}
+
+// Every output receives the same updates and lays them out for its role
+export function PresentationView({ role = 'main' }: PresentationViewProps) {
   const [isConnected, setIsConnected] = useState(false);
-  const [localSong, setLocalSong] = useState<Song | null>(null);
-  const [localSegment, setLocalSegment] = useState<SongSegment | null>(null);
+  const [localSlide, setLocalSlide] = useState<Slide | null>(null);
+  const [upNext, setUpNext] = useState<Slide | null>(null);
+  const [stageMessage, setStageMessage] = useState('');
+  const [lines, setLines] = useState<LineCursor | null>(null);
+  // Read while handling updates, so a cursor move knows whether it's a new frame
+  const lineDisplayRef = useRef<LineDisplay>(DEFAULT_LINE_DISPLAYS[role]);
+  const [lineDisplay, setLineDisplay] = useState<LineDisplay>(lineDisplayRef.current);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [theme, setTheme] = useState<PresentationThemeSettings>(DEFAULT_THEME_SETTINGS);
+  const [overlay, setOverlay] = useState<DisplayOverlay | null>(null);
+  // A new frame for every slide or overlay change; "fade" marks a fade to or
+  // from black or logo, which is slower than the theme's transition
+  const [frame, setFrame] = useState({ id: 0, fade: false });
+  // Last sequence number applied from the server, to drop stale updates
+  const lastSequence = useRef<{ epoch: string; seq: number } | null>(null);
+  // Updates already applied, as a control panel in this browser sends each
+  // update directly as well as through the server
+  const recentUpdates = useRef<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const maxRetries = 3;
@@ -14,12 +45,42 @@ export function PresentationView() {
     try {
       if (!data) return;
       console.log('Received update:', data);
-      if ('song' in data) setLocalSong(data.song);
-      if ('segment' in data) setLocalSegment(data.segment);
+
+      // Messages straight from the control panel window carry no number
+      if (typeof data.seq === 'number') {
+        const last = lastSequence.current;
+        if (last && last.epoch === data.epoch && data.seq <= last.seq) {
+          console.log('Dropping stale update:', data.seq);
+          return;
+        }
+        lastSequence.current = { epoch: data.epoch, seq: data.seq };
+      }
+
+      if (data.updateId) {
+        if (recentUpdates.current.includes(data.updateId)) return;
+        recentUpdates.current = [...recentUpdates.current.slice(-(MAX_RECENT_UPDATES - 1)), data.updateId];
+      }
+
+      if ('slide' in data) setLocalSlide(data.slide);
+      if ('upNext' in data) setUpNext(data.upNext);
+      if ('stageMessage' in data) setStageMessage(data.stageMessage);
+      if ('lines' in data) setLines(data.lines);
+      if ('lineDisplays' in data) {
+        lineDisplayRef.current = data.lineDisplays?.[role] ?? DEFAULT_LINE_DISPLAYS[role];
+        setLineDisplay(lineDisplayRef.current);
+      }
+      if ('logoUrl' in data) setLogoUrl(data.logoUrl);
+      if ('theme' in data) setTheme(data.theme);
+      if ('overlay' in data) setOverlay(data.overlay);
+      // Outputs showing only the current lines change frame with the cursor
+      const linesChanged = 'lines' in data && lineDisplayRef.current === 'lines';
+      if ('slide' in data || 'overlay' in data || linesChanged) {
+        setFrame(prev => ({ id: prev.id + 1, fade: data.fade === true }));
+      }
     } catch (error) {
       console.error('Error handling update:', error);
     }
-  }, []);
+  }, [role]);
 
   const handleDisconnect = useCallback(() => {
     setIsConnected(false);
@@ -32,22 +93,6 @@ export function PresentationView() {
     setRetryCount(0);
   }, []);
 
-  const notifyParentWindow = useCallback(() => {
-    try {
-      if (window.opener && window.opener !== window) {
-        window.opener.postMessage(
-          { 
-            type: 'presentationReady', 
-            id: socketService.getId() 
-          },
-          window.location.origin
-        );
-      }
-    } catch (error) {
-      console.error('Error notifying parent window:', error);
-    }
-  }, []);
-
   const setupPresentation = useCallback(async () => {
     if (!document.hasFocus()) {
       console.log('Window not focused, deferring setup');
@@ -56,20 +101,17 @@ export function PresentationView() {
 
     try {
       // Only attempt connection if not already connected
-      if (!socketService.isConnected()) {
-        console.log('Connecting to socket server...');
-        await socketService.connect();
+      if (!presentationTransport.isConnected()) {
+        console.log('Connecting to control panel...');
+        await presentationTransport.connect();
       }
 
       console.log('Registering as presentation window...');
-      await socketService.registerPresentation();
+      await presentationTransport.registerPresentation(role);
       
       setIsConnected(true);
       setError(null);
       setRetryCount(0);
-      
-      // Notify parent window after successful setup
-      notifyParentWindow();
     } catch (error) {
       console.error('Setup error:', error);
       setIsConnected(false);
@@ -87,7 +129,7 @@ export function PresentationView() {
         return newCount;
       });
     }
-  }, [notifyParentWindow]);
+  }, [role]);
 
   useEffect(() => {
     let mounted = true;
@@ -97,9 +139,9 @@ export function PresentationView() {
     const setup = async () => {
       try {
         // Set up event listeners
-        const removeUpdateHandler = socketService.onUpdate(handleUpdate);
-        const removeDisconnectHandler = socketService.onDisconnect(handleDisconnect);
-        const removeReconnectHandler = socketService.onReconnect(handleReconnect);
+        const removeUpdateHandler = presentationTransport.onUpdate(handleUpdate);
+        const removeDisconnectHandler = presentationTransport.onDisconnect(handleDisconnect);
+        const removeReconnectHandler = presentationTransport.onReconnect(handleReconnect);
 
         // Handle fullscreen
         const handleClick = () => {
@@ -117,29 +159,18 @@ export function PresentationView() {
 
         // Periodically check window focus and connection status
         focusCheckInterval = window.setInterval(() => {
-          if (document.hasFocus() && !socketService.isConnected() && mounted) {
+          if (document.hasFocus() && !presentationTransport.isConnected() && mounted) {
             console.log('Checking connection status...');
             setupPresentation().catch(console.error);
           }
         }, 5000);
 
-        // Handle window messages
-        const handleMessage = (event: MessageEvent) => {
-          if (event.origin !== window.location.origin) return;
-          if (event.data?.type === 'presentationUpdate') {
-            handleUpdate(event.data.data);
-          }
-        };
-
-        window.addEventListener('message', handleMessage);
-
         return () => {
           if (mounted) {
             removeUpdateHandler();
             removeDisconnectHandler();
             removeReconnectHandler();
             window.removeEventListener('click', handleClick);
-            window.removeEventListener('message', handleMessage);
           }
         };
       } catch (error) {
@@ -154,14 +185,14 @@ export function PresentationView() {
 
     // Handle window focus events
     const handleFocus = () => {
-      if (!socketService.isConnected() && mounted) {
+      if (!presentationTransport.isConnected() && mounted) {
         console.log('Window focused, checking connection...');
         setupPresentation().catch(console.error);
       }
     };
 
     const handleVisibilityChange = () => {
-      if (!document.hidden && !socketService.isConnected() && mounted) {
+      if (!document.hidden && !presentationTransport.isConnected() && mounted) {
         console.log('Page visible, checking connection...');
         setupPresentation().catch(console.error);
       }
@@ -188,10 +219,27 @@ export function PresentationView() {
         document.exitFullscreen().catch(console.error);
       }
       
-      socketService.disconnect();
+      presentationTransport.disconnect();
     };
   }, [handleUpdate, handleDisconnect, handleReconnect, setupPresentation]);
 
+  const shownSlide = localSlide && lines && lineDisplay === 'lines'
+    ? showCurrentLines(localSlide, lines)
+    : localSlide;
+  const highlight = lineDisplay === 'highlight' ? lines : null;
+
+  // Keyed over video, so connection problems stay off the stream; the
+  // control panel's output list shows whether it's connected
+  if (role === 'lower-third') {
+    return (
+      <div className="h-screen">
+        <SlideStage transparent>
+          <LowerThird slide={shownSlide} theme={theme} overlay={overlay} />
+        </SlideStage>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="h-screen bg-red-50 flex items-center justify-center">
@@ -225,7 +273,23 @@ export function PresentationView() {
     );
   }
 
-  if (!localSong || !localSegment) {
+  if (role === 'stage') {
+    return (
+      <div className="h-screen">
+        <SlideStage>
+          <StageDisplay
+            slide={shownSlide}
+            upNext={upNext}
+            overlay={overlay}
+            message={stageMessage}
+            highlight={highlight}
+          />
+        </SlideStage>
+      </div>
+    );
+  }
+
+  if (!localSlide && !overlay) {
     return (
       <div className="h-screen bg-black flex items-center justify-center text-white">
         <div className="text-center">
@@ -237,16 +301,22 @@ export function PresentationView() {
   }
 
   return (
-    <div className="h-screen bg-black text-white flex items-center justify-center p-8">
-      <div className="text-center max-w-4xl">
-        <h1 className="text-5xl font-bold mb-8">{localSong.title}</h1>
-        <p className="text-3xl leading-relaxed whitespace-pre-line">
-          {localSegment.content}
-        </p>
-        <div className="absolute bottom-8 right-8 text-gray-500 text-sm">
-          {localSegment.type} {localSegment.order_num}
-        </div>
-      </div>
+    <div className="h-screen">
+      <SlideStage>
+        <TransitionStage
+          frameId={frame.id}
+          transition={frame.fade ? 'crossfade' : theme.transition}
+          duration={frame.fade ? FADE_DURATION : theme.transition_duration}
+        >
+          <SlideRenderer
+            slide={shownSlide}
+            logoUrl={logoUrl}
+            theme={theme}
+            overlay={overlay}
+            highlight={highlight}
+          />
+        </TransitionStage>
+      </SlideStage>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { QUEUE_ITEM_TYPE_LABELS, type EditableQueueItem } from '../lib/slides';
+
+interface QueueItemEditorProps {
+  item: EditableQueueItem;
+  onSave: (item: EditableQueueItem) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+export function QueueItemEditor({ item: initialItem, onSave, onClose }: QueueItemEditorProps) {
+  const [item, setItem] = useState<EditableQueueItem>(initialItem);
+
+  const isEmpty =
+    (item.type === 'text' && !item.title.trim() && !item.content.trim()) ||
+    (item.type === 'announcement' && !item.title.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isEmpty) return;
+    onSave(item);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold">{QUEUE_ITEM_TYPE_LABELS[item.type]}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {item.type === 'text' && (
+            <>
+              <div>
+                <label htmlFor="item-title" className="block text-sm font-medium text-gray-700">
+                  Heading (optional)
+                </label>
+                <input
+                  id="item-title"
+                  type="text"
+                  value={item.title}
+                  onChange={(e) => setItem({ ...item, title: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="item-content" className="block text-sm font-medium text-gray-700">
+                  Text
+                </label>
+                <textarea
+                  id="item-content"
+                  rows={6}
+                  value={item.content}
+                  onChange={(e) => setItem({ ...item, content: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          {item.type === 'announcement' && (
+            <>
+              <div>
+                <label htmlFor="item-title" className="block text-sm font-medium text-gray-700">
+                  Title
+                </label>
+                <input
+                  id="item-title"
+                  type="text"
+                  value={item.title}
+                  onChange={(e) => setItem({ ...item, title: e.target.value })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="item-body" className="block text-sm font-medium text-gray-700">
+                  Details
+                </label>
+                <textarea
+                  id="item-body"
+                  rows={4}
+                  value={item.body}
+                  onChange={(e) => setItem({ ...item, body: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="item-image" className="block text-sm font-medium text-gray-700">
+                  Image URL (optional)
+                </label>
+                <input
+                  id="item-image"
+                  type="url"
+                  value={item.image_url ?? ''}
+                  onChange={(e) => setItem({ ...item, image_url: e.target.value.trim() || null })}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          {item.type === 'blank' && (
+            <div className="space-y-2">
+              {(['black', 'logo'] as const).map(mode => (
+                <label key={mode} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="blank-mode"
+                    checked={item.mode === mode}
+                    onChange={() => setItem({ ...item, mode })}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>{mode === 'black' ? 'Black screen' : 'Church logo'}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isEmpty}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, BookOpen, X } from 'lucide-react';
+import {
+  formatReference,
+  getVerses,
+  loadBible,
+  loadBibleIndex,
+  paginateVerses,
+  parseReference,
+  type Bible,
+  type BibleInfo
+} from '../lib/scripture';
+import type { ScriptureQueueItem } from '../types';
+
+interface ScriptureLookupProps {
+  onAdd: (item: ScriptureQueueItem) => void;
+  onClose: () => void;
+}
+
+const TRANSLATION_KEY = 'scriptureTranslation';
+
+export function ScriptureLookup({ onAdd, onClose }: ScriptureLookupProps) {
+  const [translations, setTranslations] = useState<BibleInfo[]>([]);
+  const [translationId, setTranslationId] = useState(() => localStorage.getItem(TRANSLATION_KEY) ?? '');
+  const [bible, setBible] = useState<Bible | null>(null);
+  const [reference, setReference] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBibleIndex()
+      .then(list => {
+        setTranslations(list);
+        setTranslationId(current => (list.some(t => t.id === current) ? current : list[0]?.id ?? ''));
+      })
+      .catch(error => setLoadError(error.message));
+  }, []);
+
+  useEffect(() => {
+    if (!translationId) return;
+    localStorage.setItem(TRANSLATION_KEY, translationId);
+    setBible(null);
+    loadBible(translationId)
+      .then(setBible)
+      .catch(error => setLoadError(error.message));
+  }, [translationId]);
+
+  // Resolved on every keystroke so problems show up while typing
+  const result = useMemo(() => {
+    if (!bible || !reference.trim()) return null;
+    try {
+      const parsed = parseReference(reference);
+      const verses = getVerses(bible, parsed);
+      return { book: parsed.book, verses, pages: paginateVerses(verses), error: null };
+    } catch (error) {
+      return { book: '', verses: [], pages: [], error: (error as Error).message };
+    }
+  }, [bible, reference]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bible || !result || result.error || result.verses.length === 0) return;
+    onAdd({
+      id: crypto.randomUUID(),
+      type: 'scripture',
+      book: result.book,
+      translation: bible.abbreviation,
+      verses: result.verses
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold">Add Scripture</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loadError && (
+          <div className="mx-6 mt-4 bg-red-50 border-l-4 border-red-400 p-4 rounded-md flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+            <p className="text-red-700">{loadError}</p>
+          </div>
+        )}
+
+        <div className="px-6 py-4 grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label htmlFor="scripture-reference" className="block text-sm font-medium text-gray-700">
+              Reference
+            </label>
+            <input
+              id="scripture-reference"
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="e.g. John 3:16-18"
+              autoFocus
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="scripture-translation" className="block text-sm font-medium text-gray-700">
+              Translation
+            </label>
+            <select
+              id="scripture-translation"
+              value={translationId}
+              onChange={(e) => setTranslationId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {translations.map(translation => (
+                <option key={translation.id} value={translation.id}>{translation.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          {result?.error && (
+            <p className="text-sm text-red-600">{result.error}</p>
+          )}
+          {result?.pages.map((page, index) => (
+            <div key={index} className="p-3 rounded-lg bg-gray-50">
+              <div className="text-sm font-medium text-gray-500 mb-1">
+                Slide {index + 1} · {formatReference(result.book, page)}
+              </div>
+              <p className="text-gray-800">
+                {page.map(verse => (
+                  <span key={`${verse.chapter}:${verse.verse}`}>
+                    <sup className="text-gray-400 mr-0.5">{verse.verse}</sup>
+                    {verse.text}{' '}
+                  </span>
+                ))}
+              </p>
+            </div>
+          ))}
+          {!result && (
+            <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+              <BookOpen className="w-10 h-10 mb-2" />
+              <p>Type a reference such as "Ps 23" or "1 Cor 13:4-7, 13"</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!result || !!result.error || result.verses.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {result && !result.error
+              ? `Add ${result.pages.length} Slide${result.pages.length === 1 ? '' : 's'}`
+              : 'Add to Queue'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
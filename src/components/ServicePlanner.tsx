@@ -0,0 +1,514 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, AlertTriangle, BookOpen, CalendarDays, Copy, GripVertical, Megaphone, MonitorOff, MonitorPlay, Pencil, Plus, Search, Trash2, Type, X } from 'lucide-react';
+import { getUserProfile, handleSupabaseError } from '../lib/supabase';
+import { canEditSongs, loadLibrary } from '../lib/songs';
+import { getDefaultArrangement } from '../lib/arrangements';
+import { getItemSlides, getItemSubtitle, getItemTitle, isEditableItem, newQueueItem, QUEUE_ITEM_TYPE_LABELS, type EditableQueueItem } from '../lib/slides';
+import {
+  countMissingSongs,
+  deleteService,
+  duplicateService,
+  formatServiceDate,
+  loadService,
+  loadServices,
+  saveService,
+  toDateString,
+  toQueueItems,
+  type ServiceDraft
+} from '../lib/services';
+import { inheritedThemeLabel, loadThemes } from '../lib/themes';
+import { usePresentationStore } from '../store/presentationStore';
+import { QueueItemEditor } from './QueueItemEditor';
+import { ScriptureLookup } from './ScriptureLookup';
+import { ThemeSelect } from './ThemeSelect';
+import type { PresentationTheme, Service, Song, UserRole } from '../types';
+
+function newServiceDraft(): ServiceDraft {
+  return {
+    name: 'Sunday Service',
+    service_date: toDateString(new Date()),
+    items: []
+  };
+}
+
+export function ServicePlanner() {
+  const navigate = useNavigate();
+  const { loadService: loadIntoControlPanel } = usePresentationStore();
+  const [services, setServices] = useState<Service[]>([]);
+  const [library, setLibrary] = useState<Song[]>([]);
+  const [themes, setThemes] = useState<PresentationTheme[]>([]);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [draft, setDraft] = useState<ServiceDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [songQuery, setSongQuery] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [editingItem, setEditingItem] = useState<EditableQueueItem | null>(null);
+  const [showScripture, setShowScripture] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [missingSongs, setMissingSongs] = useState(0);
+  const canEdit = canEditSongs(role);
+  const today = toDateString(new Date());
+
+  const refreshServices = useCallback(async () => {
+    setServices(await loadServices());
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const profile = await getUserProfile();
+        setRole(profile.role);
+        const [, songs, churchThemes] = await Promise.all([
+          refreshServices(),
+          loadLibrary(profile.church_id),
+          loadThemes()
+        ]);
+        setLibrary(songs);
+        setThemes(churchThemes);
+      } catch (err) {
+        setError(handleSupabaseError(err));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [refreshServices]);
+
+  const upcoming = services.filter(service => service.service_date >= today).reverse();
+  const past = services.filter(service => service.service_date < today);
+
+  const matchingSongs = useMemo(() => {
+    const query = songQuery.trim().toLowerCase();
+    if (!query) return [];
+    return library
+      .filter(song => song.title.toLowerCase().includes(query) || song.author.toLowerCase().includes(query))
+      .slice(0, 8);
+  }, [library, songQuery]);
+
+  const updateDraft = (changes: Partial<ServiceDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+  };
+
+  const confirmDiscard = () => !dirty || confirm('Discard unsaved changes to this service?');
+
+  const openService = async (serviceId: string) => {
+    if (!confirmDiscard()) return;
+    setError(null);
+    try {
+      const service = await loadService(serviceId);
+      if (!service) throw new Error('Service not found');
+      setDraft({
+        id: service.id,
+        name: service.name,
+        service_date: service.service_date,
+        items: toQueueItems(service)
+      });
+      setMissingSongs(countMissingSongs(service));
+      setDirty(false);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    }
+  };
+
+  const startNewService = () => {
+    if (!confirmDiscard()) return;
+    setDraft(newServiceDraft());
+    setMissingSongs(0);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const id = await saveService(draft);
+      setDraft({ ...draft, id });
+      setMissingSongs(0);
+      setDirty(false);
+      await refreshServices();
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDuplicate = async (serviceId: string) => {
+    if (!confirmDiscard()) return;
+    setError(null);
+    try {
+      const id = await duplicateService(serviceId);
+      await refreshServices();
+      setDirty(false);
+      await openService(id);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    }
+  };
+
+  const handleDelete = async (service: Service) => {
+    if (!confirm(`Delete "${service.name}" on ${formatServiceDate(service.service_date)}?`)) return;
+    try {
+      await deleteService(service.id);
+      if (draft?.id === service.id) {
+        setDraft(null);
+        setDirty(false);
+      }
+      await refreshServices();
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    }
+  };
+
+  const handleOpenInControlPanel = async () => {
+    if (!draft?.id) return;
+    if (dirty) await handleSave();
+    const service = await loadService(draft.id);
+    if (service) {
+      loadIntoControlPanel(service);
+      navigate('/');
+    }
+  };
+
+  const addSong = (song: Song) => {
+    if (!draft) return;
+    updateDraft({ items: [...draft.items, { id: crypto.randomUUID(), type: 'song', song, arrangementId: null }] });
+    setSongQuery('');
+  };
+
+  const saveItem = (item: EditableQueueItem) => {
+    if (!draft) return;
+    const exists = draft.items.some(i => i.id === item.id);
+    updateDraft({ items: exists ? draft.items.map(i => (i.id === item.id ? item : i)) : [...draft.items, item] });
+    setEditingItem(null);
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (!draft || from === to) return;
+    const items = [...draft.items];
+    const [moved] = items.splice(from, 1);
+    items.splice(to, 0, moved);
+    updateDraft({ items });
+  };
+
+  const renderServiceList = (title: string, list: Service[]) => (
+    <div>
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{title}</h3>
+      {list.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">None</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {list.map(service => (
+            <div
+              key={service.id}
+              className={`group p-3 rounded-lg cursor-pointer ${
+                draft?.id === service.id ? 'bg-indigo-50 ring-1 ring-indigo-300' : 'bg-gray-50 hover:bg-gray-100'
+              }`}
+              onClick={() => openService(service.id)}
+            >
+              <div className="flex justify-between items-center">
+                <div>
+                  <h4 className="font-medium">{service.name}</h4>
+                  <p className="text-sm text-gray-500">{formatServiceDate(service.service_date)}</p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDuplicate(service.id); }}
+                      className="text-gray-500 hover:text-indigo-600"
+                      title="Duplicate to the next week"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(service); }}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete service"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Services</h1>
+        {canEdit && (
+          <button
+            onClick={startNewService}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+          >
+            <Plus className="w-4 h-4" />
+            New Service
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-md flex items-center">
+          <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-12 gap-6">
+        <div className="col-span-4 bg-white rounded-lg shadow-md p-6">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+              <p className="mt-2 text-gray-500">Loading services...</p>
+            </div>
+          ) : (
+            <>
+              {renderServiceList('Upcoming', upcoming)}
+              {renderServiceList('Past', past)}
+            </>
+          )}
+        </div>
+
+        <div className="col-span-8 bg-white rounded-lg shadow-md p-6">
+          {!draft ? (
+            <div className="flex flex-col items-center justify-center h-[300px] text-gray-500">
+              <CalendarDays className="w-12 h-12 mb-2" />
+              <p>Select a service or create a new one</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {missingSongs > 0 && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded-md text-sm text-yellow-800 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {missingSongs === 1
+                    ? 'A planned song has been deleted from the library and is left out of this service.'
+                    : `${missingSongs} planned songs have been deleted from the library and are left out of this service.`}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="service-name" className="block text-sm font-medium text-gray-700">
+                    Name
+                  </label>
+                  <input
+                    id="service-name"
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    disabled={!canEdit}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="service-date" className="block text-sm font-medium text-gray-700">
+                    Date
+                  </label>
+                  <input
+                    id="service-date"
+                    type="date"
+                    value={draft.service_date}
+                    onChange={(e) => updateDraft({ service_date: e.target.value })}
+                    disabled={!canEdit}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Running Order</h3>
+                <div className="space-y-2">
+                  {draft.items.map((item, index) => (
+                    <div
+                      key={item.id}
+                      draggable={canEdit}
+                      onDragStart={() => setDragIndex(index)}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        if (dragIndex !== null && dragIndex !== index) {
+                          moveItem(dragIndex, index);
+                          setDragIndex(index);
+                        }
+                      }}
+                      onDragEnd={() => setDragIndex(null)}
+                      className={`flex items-center gap-3 p-3 rounded-lg ${
+                        dragIndex === index ? 'bg-indigo-50 ring-1 ring-indigo-300' : 'bg-gray-50'
+                      }`}
+                    >
+                      {canEdit && <GripVertical className="w-5 h-5 text-gray-400 cursor-move" />}
+                      <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium truncate">{getItemTitle(item)}</h4>
+                        <p className="text-sm text-gray-500 truncate">
+                          {item.type === 'song'
+                            ? `${item.song.author} · ${getItemSlides(item).length} slides`
+                            : `${QUEUE_ITEM_TYPE_LABELS[item.type]} · ${getItemSubtitle(item)}`}
+                        </p>
+                      </div>
+                      {item.type === 'song' && (item.song.arrangements?.length ?? 0) > 1 && (
+                        <select
+                          value={item.arrangementId ?? getDefaultArrangement(item.song).id}
+                          onChange={(e) => updateDraft({
+                            items: draft.items.map(i => (i.id === item.id ? { ...item, arrangementId: e.target.value } : i))
+                          })}
+                          disabled={!canEdit}
+                          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                          {item.song.arrangements!.map(arrangement => (
+                            <option key={arrangement.id} value={arrangement.id}>{arrangement.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {themes.length > 0 && (
+                        <ThemeSelect
+                          themes={themes}
+                          value={item.themeId}
+                          inheritedLabel={inheritedThemeLabel(themes, item.type === 'song' ? item.song.theme_id : null)}
+                          onChange={(themeId) => updateDraft({
+                            items: draft.items.map(i => (i.id === item.id ? { ...item, themeId } : i))
+                          })}
+                          disabled={!canEdit}
+                          className="w-40 text-sm"
+                        />
+                      )}
+                      {canEdit && isEditableItem(item) && (
+                        <button
+                          onClick={() => setEditingItem(item)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                          title="Edit item"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canEdit && (
+                        <button
+                          onClick={() => updateDraft({ items: draft.items.filter(i => i.id !== item.id) })}
+                          className="text-red-600 hover:text-red-700"
+                          title="Remove from service"
+                        >
+                          <X className="w-5 h-5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+
+                  {draft.items.length === 0 && (
+                    <div className="text-center py-8 text-gray-500">
+                      No items yet. Search the library below to add songs, or add a slide.
+                    </div>
+                  )}
+                </div>
+
+                {canEdit && (
+                  <div className="mt-4 flex gap-2">
+                    <button
+                      onClick={() => setEditingItem(newQueueItem('text'))}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <Type className="w-4 h-4" />
+                      Custom Slide
+                    </button>
+                    <button
+                      onClick={() => setEditingItem(newQueueItem('announcement'))}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <Megaphone className="w-4 h-4" />
+                      Announcement
+                    </button>
+                    <button
+                      onClick={() => setEditingItem(newQueueItem('blank'))}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <MonitorOff className="w-4 h-4" />
+                      Blank Screen
+                    </button>
+                    <button
+                      onClick={() => setShowScripture(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <BookOpen className="w-4 h-4" />
+                      Scripture
+                    </button>
+                  </div>
+                )}
+
+                {canEdit && (
+                  <div className="mt-4 relative">
+                    <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="text"
+                      placeholder="Add a song..."
+                      value={songQuery}
+                      onChange={(e) => setSongQuery(e.target.value)}
+                      className="pl-10 w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                    {matchingSongs.length > 0 && (
+                      <div className="absolute z-10 mt-1 w-full bg-white rounded-lg shadow-lg border border-gray-200 max-h-64 overflow-y-auto">
+                        {matchingSongs.map(song => (
+                          <button
+                            key={song.id}
+                            onClick={() => addSong(song)}
+                            className="w-full text-left px-4 py-2 hover:bg-indigo-50"
+                          >
+                            <div className="font-medium">{song.title}</div>
+                            <div className="text-sm text-gray-500">{song.author}</div>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4 border-t">
+                <button
+                  onClick={handleOpenInControlPanel}
+                  disabled={!draft.id || saving}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <MonitorPlay className="w-4 h-4" />
+                  Open in Control Panel
+                </button>
+                {canEdit && (
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !dirty}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Service'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showScripture && draft && (
+        <ScriptureLookup
+          onAdd={(item) => {
+            updateDraft({ items: [...draft.items, item] });
+            setShowScripture(false);
+          }}
+          onClose={() => setShowScripture(false)}
+        />
+      )}
+
+      {editingItem && (
+        <QueueItemEditor
+          item={editingItem}
+          onSave={saveItem}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { SlideRenderer } from './SlideRenderer';
+import { SlideStage } from './SlideStage';
+import type { DisplayOverlay, PresentationThemeSettings, Slide } from '../types';
+
+interface SlidePreviewProps {
+  label: string;
+  caption?: string;
+  slide: Slide | null;
+  logoUrl: string | null;
+  theme?: PresentationThemeSettings;
+  overlay?: DisplayOverlay | null;
+  highlight?: boolean;
+}
+
+// A scaled copy of what a display shows for the given slide
+export function SlidePreview({ label, caption, slide, logoUrl, theme, overlay = null, highlight = false }: SlidePreviewProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className={`font-medium ${highlight ? 'text-red-600' : 'text-gray-500'}`}>{label}</span>
+        {caption && <span className="text-gray-400 truncate ml-2">{caption}</span>}
+      </div>
+      <div className={`aspect-video rounded-lg overflow-hidden ${highlight ? 'ring-2 ring-red-500' : 'ring-1 ring-gray-200'}`}>
+        <SlideStage>
+          <SlideRenderer slide={slide} logoUrl={logoUrl} theme={theme} overlay={overlay} />
+        </SlideStage>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { DEFAULT_THEME_SETTINGS, themeBackground, themeText, WATERMARK_POSITIONS } from '../lib/themes';
+import { fitFontSize, getSlideTextBlock } from '../lib/textFit';
+import { markCurrentLines } from '../lib/lineStepping';
+import type { BlankMode, DisplayOverlay, LineCursor, PresentationThemeSettings, Slide } from '../types';
+
+interface SlideRendererProps {
+  slide: Slide | null;
+  logoUrl: string | null;
+  theme?: PresentationThemeSettings;
+  overlay?: DisplayOverlay | null;
+  // Lines to pick out from the rest when stepping line by line
+  highlight?: LineCursor | null;
+}
+
+const VERTICAL_ALIGN: Record<PresentationThemeSettings['vertical_align'], string> = {
+  top: 'flex-start',
+  middle: 'center',
+  bottom: 'flex-end'
+};
+
+interface SlideLinesProps {
+  content: string;
+  highlight: LineCursor | null;
+  className?: string;
+}
+
+function SlideLines({ content, highlight, className = '' }: SlideLinesProps) {
+  if (!highlight) {
+    return <p className={`leading-relaxed whitespace-pre-line ${className}`}>{content}</p>;
+  }
+
+  // One block per line, so the lines off the cursor can be dimmed
+  return (
+    <p className={`leading-relaxed ${className}`}>
+      {markCurrentLines(content, highlight).map(({ text, current }, index) => (
+        <span key={index} className={`block transition-opacity ${current ? '' : 'opacity-40'}`}>
+          {text || '\u00a0'}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+// Text sizes below are in em so they scale with the theme's font size
+function SongSlide({ slide, highlight }: { slide: Extract<Slide, { type: 'song' }>; highlight: LineCursor | null }) {
+  return (
+    <div>
+      <h1 className="text-[1.2em] font-bold mb-[0.6em]">{slide.song.title}</h1>
+      <SlideLines content={slide.segment.content} highlight={highlight} />
+      {/* Smaller and in italics, so the second language reads as secondary */}
+      {slide.translation && (
+        <SlideLines
+          content={slide.translation}
+          highlight={highlight}
+          className="mt-[0.5em] text-[0.7em] italic font-normal opacity-75"
+        />
+      )}
+      <div className="absolute bottom-8 right-8 text-sm text-gray-500 [text-shadow:none]">
+        {slide.label}
+        {slide.parts > 1 && ` (${slide.part + 1}/${slide.parts})`}
+      </div>
+      {slide.credit && (
+        <div className="absolute bottom-8 left-8 max-w-[60%] text-left text-[24px] font-normal opacity-70">
+          {slide.credit}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TextSlide({ slide, highlight }: { slide: Extract<Slide, { type: 'text' }>; highlight: LineCursor | null }) {
+  return (
+    <div>
+      {slide.title && <h1 className="text-[1.2em] font-bold mb-[0.6em]">{slide.title}</h1>}
+      <SlideLines content={slide.content} highlight={highlight} />
+    </div>
+  );
+}
+
+function AnnouncementSlide({ slide }: { slide: Extract<Slide, { type: 'announcement' }> }) {
+  return (
+    <div className="flex items-center gap-12">
+      {slide.image_url && (
+        <img
+          src={slide.image_url}
+          alt=""
+          className="w-1/2 max-h-[756px] object-contain rounded-lg"
+        />
+      )}
+      <div className="flex-1">
+        <h1 className="text-[1.2em] font-bold mb-[0.5em]">{slide.title}</h1>
+        <p className="text-[0.85em] leading-relaxed whitespace-pre-line opacity-90">
+          {slide.body}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ScriptureSlide({ slide }: { slide: Extract<Slide, { type: 'scripture' }> }) {
+  return (
+    <div>
+      <p className="leading-relaxed">
+        {slide.verses.map(verse => (
+          <span key={`${verse.chapter}:${verse.verse}`}>
+            <sup className="text-[0.45em] opacity-60 mr-1">{verse.verse}</sup>
+            {verse.text}{' '}
+          </span>
+        ))}
+      </p>
+      <div className="mt-[0.6em] text-[0.6em] opacity-60">
+        {slide.reference} ({slide.translation})
+      </div>
+    </div>
+  );
+}
+
+function BlankSlide({ mode, logoUrl }: { mode: BlankMode; logoUrl: string | null }) {
+  // Without a logo the logo screen shows just the background
+  if (mode === 'logo' && logoUrl) {
+    return (
+      <div className="flex justify-center">
+        <img src={logoUrl} alt="" className="max-w-[40%] max-h-[432px] object-contain" />
+      </div>
+    );
+  }
+  return null;
+}
+
+export function SlideRenderer({
+  slide,
+  logoUrl,
+  theme = DEFAULT_THEME_SETTINGS,
+  overlay = null,
+  highlight = null
+}: SlideRendererProps) {
+  // "clear" keeps the background but hides the text
+  const visible = overlay ? null : slide;
+  // Black screens ignore the theme so they're properly dark
+  const black = overlay === 'black' || (visible?.type === 'blank' && visible.mode === 'black');
+  const dimmed = !black && theme.background_type === 'image' && !!theme.background_image_url;
+  const watermark = theme.show_watermark && logoUrl && visible && visible.type !== 'blank';
+  const textBlock = getSlideTextBlock(visible);
+  const fontSize = textBlock ? fitFontSize(textBlock, theme) : theme.font_size;
+
+  return (
+    <div
+      className="relative w-full h-full overflow-hidden flex"
+      style={{
+        ...(black ? { backgroundColor: '#000000' } : themeBackground(theme)),
+        padding: theme.margin,
+        alignItems: VERTICAL_ALIGN[theme.vertical_align]
+      }}
+    >
+      {dimmed && (
+        <div className="absolute inset-0 bg-black" style={{ opacity: theme.background_dim }} />
+      )}
+
+      {/* z-index lifts the text above the dimming layer */}
+      <div className="w-full z-10" style={{ ...themeText(theme), fontSize }}>
+        {overlay === 'logo' && <BlankSlide mode="logo" logoUrl={logoUrl} />}
+        {visible?.type === 'song' && <SongSlide slide={visible} highlight={highlight} />}
+        {visible?.type === 'text' && <TextSlide slide={visible} highlight={highlight} />}
+        {visible?.type === 'announcement' && <AnnouncementSlide slide={visible} />}
+        {visible?.type === 'blank' && <BlankSlide mode={visible.mode} logoUrl={logoUrl} />}
+        {visible?.type === 'scripture' && <ScriptureSlide slide={visible} />}
+      </div>
+
+      {watermark && (
+        <img
+          src={logoUrl}
+          alt=""
+          className="absolute z-10 max-w-[240px] max-h-[120px] object-contain opacity-80"
+          style={WATERMARK_POSITIONS[theme.watermark_position]}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { STAGE_HEIGHT, STAGE_WIDTH } from '../lib/themes';
+
+// Slides are laid out on a fixed 1920x1080 stage and scaled to fit, so the
+// control panel previews and every display show exactly the same layout.
+
+interface SlideStageProps {
+  children: React.ReactNode;
+  // For outputs keyed over video, which must not paint the letterbox
+  transparent?: boolean;
+}
+
+export function SlideStage({ children, transparent = false }: SlideStageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setScale(Math.min(width / STAGE_WIDTH, height / STAGE_HEIGHT));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={containerRef} className={`relative w-full h-full overflow-hidden ${transparent ? '' : 'bg-black'}`}>
+      <div
+        className="absolute left-1/2 top-1/2"
+        style={{
+          width: STAGE_WIDTH,
+          height: STAGE_HEIGHT,
+          transform: `translate(-50%, -50%) scale(${scale})`,
+          // Hidden until measured to avoid a full-size flash
+          visibility: scale ? 'visible' : 'hidden'
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
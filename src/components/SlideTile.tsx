@@ -0,0 +1,81 @@
+import { SEGMENT_TYPE_COLORS } from '../lib/segmentTypes';
+import type { Slide } from '../types';
+
+interface SlideTileProps {
+  slide: Slide;
+  // Short segment code for song slides, e.g. "V1"
+  code?: string;
+  active: boolean;
+  logoUrl: string | null;
+  onClick: () => void;
+}
+
+export function SlideTile({ slide, code, active, logoUrl, onClick }: SlideTileProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={`p-4 rounded-lg text-left transition-colors ${
+        active
+          ? 'bg-indigo-100 border-2 border-indigo-500'
+          : 'bg-white hover:bg-indigo-50'
+      }`}
+    >
+      {slide.type === 'song' && (
+        <>
+          <div className="text-sm font-medium text-gray-500 mb-1">
+            <span className={`font-mono mr-2 px-1.5 rounded ${SEGMENT_TYPE_COLORS[slide.segment.type]}`}>{code}</span>
+            {slide.label}
+            {slide.parts > 1 && <span className="ml-1 text-gray-400">({slide.part + 1}/{slide.parts})</span>}
+          </div>
+          <div className="text-gray-800 line-clamp-3">
+            {slide.segment.content}
+          </div>
+          {slide.translation && (
+            <div className="mt-1 text-sm italic text-gray-500 line-clamp-2">
+              {slide.translation}
+            </div>
+          )}
+        </>
+      )}
+
+      {slide.type === 'text' && (
+        <>
+          <div className="text-sm font-medium text-gray-500 mb-1">{slide.title || 'Custom slide'}</div>
+          <div className="text-gray-800 line-clamp-3 whitespace-pre-line">{slide.content}</div>
+        </>
+      )}
+
+      {slide.type === 'announcement' && (
+        <div className="flex gap-3">
+          {slide.image_url && (
+            <img src={slide.image_url} alt="" className="w-16 h-16 object-cover rounded" />
+          )}
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-500 mb-1">Announcement</div>
+            <div className="font-medium text-gray-800">{slide.title}</div>
+            <div className="text-gray-600 line-clamp-2">{slide.body}</div>
+          </div>
+        </div>
+      )}
+
+      {slide.type === 'scripture' && (
+        <>
+          <div className="text-sm font-medium text-gray-500 mb-1">{slide.reference}</div>
+          <div className="text-gray-800 line-clamp-3">
+            {slide.verses.map(verse => verse.text).join(' ')}
+          </div>
+        </>
+      )}
+
+      {slide.type === 'blank' && (
+        <div className="h-20 rounded bg-black flex items-center justify-center">
+          {slide.mode === 'logo' && logoUrl ? (
+            <img src={logoUrl} alt="" className="max-h-14 object-contain" />
+          ) : (
+            <span className="text-xs text-gray-500">{slide.mode === 'logo' ? 'Logo (none set)' : 'Black'}</span>
+          )}
+        </div>
+      )}
+    </button>
+  );
+}
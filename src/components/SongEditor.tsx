@@ -0,0 +1,552 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, GripVertical, Plus, Trash2, X } from 'lucide-react';
+import { handleSupabaseError } from '../lib/supabase';
+import { createSegmentId, saveSong, toSongDraft } from '../lib/songs';
+import { SEGMENT_TYPES, SEGMENT_TYPE_LABELS } from '../lib/segmentTypes';
+import { getSegmentNumbers } from '../lib/arrangements';
+import { getTranslationLanguages } from '../lib/translations';
+import { loadThemes } from '../lib/themes';
+import { languageName, MAX_TEMPO, MIN_TEMPO, parseTags, SONG_KEYS, SONG_LANGUAGES, TIME_SIGNATURES } from '../lib/songMetadata';
+import { formatKey, getChordShift, getSongKey, transposeKey } from '../lib/chords';
+import { ArrangementEditor } from './ArrangementEditor';
+import { ThemeSelect } from './ThemeSelect';
+import type { PresentationTheme, SegmentType, Song, SongDraft } from '../types';
+
+interface SongEditorProps {
+  song?: Song | null;
+  onClose: () => void;
+  onSaved: (songId: string) => void;
+}
+
+function emptyDraft(): SongDraft {
+  return {
+    title: '',
+    author: '',
+    segments: [{ id: createSegmentId(), type: 'verse', order_num: 1, content: '' }],
+    arrangements: [],
+    theme_id: null,
+    transpose: 0,
+    capo: 0,
+    ccli_number: null,
+    copyright: null,
+    publisher: null,
+    original_key: null,
+    tempo: null,
+    time_signature: null,
+    language: null,
+    tags: []
+  };
+}
+
+const TRANSPOSE_OPTIONS = Array.from({ length: 23 }, (_, index) => index - 11);
+const CAPO_OPTIONS = Array.from({ length: 12 }, (_, index) => index);
+
+export function SongEditor({ song, onClose, onSaved }: SongEditorProps) {
+  const [draft, setDraft] = useState<SongDraft>(() => (song ? toSongDraft(song) : emptyDraft()));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [themes, setThemes] = useState<PresentationTheme[]>([]);
+  // Parsed on saving, so commas and spaces can be typed freely
+  const [tagsText, setTagsText] = useState(() => (draft.tags ?? []).join(', '));
+  // Languages each segment has a translation box for, including ones just
+  // added and not yet filled in
+  const [translationLanguages, setTranslationLanguages] = useState(() => getTranslationLanguages(draft.segments));
+
+  useEffect(() => {
+    loadThemes()
+      .then(setThemes)
+      .catch(error => console.error('Error loading themes:', error));
+  }, []);
+
+  const transpose = draft.transpose ?? 0;
+  const capo = draft.capo ?? 0;
+  // What each segment is numbered when its label is left blank
+  const segmentNumbers = getSegmentNumbers(draft.segments.map(segment => ({ ...segment, label: null })));
+  const writtenKey = getSongKey(draft.segments.map(segment => segment.content).join('\n'), draft.original_key);
+
+  const updateSegment = (index: number, changes: Partial<SongDraft['segments'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      segments: prev.segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment))
+    }));
+  };
+
+  const addSegment = () => {
+    setDraft(prev => ({
+      ...prev,
+      segments: [
+        ...prev.segments,
+        { id: createSegmentId(), type: 'verse', order_num: prev.segments.length + 1, content: '' }
+      ]
+    }));
+  };
+
+  const removeSegment = (index: number) => {
+    setDraft(prev => {
+      const removedId = prev.segments[index].id;
+      return {
+        ...prev,
+        segments: prev.segments.filter((_, i) => i !== index),
+        arrangements: prev.arrangements?.map(arrangement => ({
+          ...arrangement,
+          sequence: arrangement.sequence.filter(id => id !== removedId)
+        }))
+      };
+    });
+  };
+
+  const addTranslation = (language: string) => {
+    if (language && !translationLanguages.includes(language)) {
+      setTranslationLanguages([...translationLanguages, language]);
+    }
+  };
+
+  const removeTranslation = (language: string) => {
+    const written = draft.segments.some(segment => segment.translations?.[language]?.trim());
+    if (written && !confirm(`Remove the ${languageName(language)} translation from every segment?`)) return;
+
+    setTranslationLanguages(translationLanguages.filter(other => other !== language));
+    setDraft(prev => ({
+      ...prev,
+      segments: prev.segments.map(segment => {
+        const translations = { ...segment.translations };
+        delete translations[language];
+        return { ...segment, translations };
+      })
+    }));
+  };
+
+  const moveSegment = (from: number, to: number) => {
+    if (from === to) return;
+    setDraft(prev => {
+      const segments = [...prev.segments];
+      const [moved] = segments.splice(from, 1);
+      segments.splice(to, 0, moved);
+      return { ...prev, segments: segments.map((segment, i) => ({ ...segment, order_num: i + 1 })) };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!draft.title.trim()) {
+      setError('Please enter a song title.');
+      return;
+    }
+
+    if (draft.segments.some(segment => !segment.content.trim())) {
+      setError('Every segment needs lyrics. Remove empty segments before saving.');
+      return;
+    }
+
+    if (draft.arrangements?.some(arrangement => arrangement.sequence.length === 0)) {
+      setError('Every arrangement needs at least one segment.');
+      return;
+    }
+
+    if (draft.tempo != null && (!Number.isInteger(draft.tempo) || draft.tempo < MIN_TEMPO || draft.tempo > MAX_TEMPO)) {
+      setError(`Tempo must be a whole number between ${MIN_TEMPO} and ${MAX_TEMPO} BPM.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const songId = await saveSong({ ...draft, tags: parseTags(tagsText) });
+      onSaved(songId);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold">{song ? 'Edit Song' : 'Add New Song'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-md flex items-center">
+              <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="song-title" className="block text-sm font-medium text-gray-700">
+                Title
+              </label>
+              <input
+                id="song-title"
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="song-author" className="block text-sm font-medium text-gray-700">
+                Author
+              </label>
+              <input
+                id="song-author"
+                type="text"
+                value={draft.author}
+                onChange={(e) => setDraft({ ...draft, author: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+            {themes.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Presentation Theme
+                </label>
+                <ThemeSelect
+                  themes={themes}
+                  value={draft.theme_id}
+                  inheritedLabel="Church default theme"
+                  onChange={(themeId) => setDraft({ ...draft, theme_id: themeId })}
+                  className="mt-1 block w-full"
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="song-transpose" className="block text-sm font-medium text-gray-700">
+                  Transpose
+                </label>
+                <select
+                  id="song-transpose"
+                  value={transpose}
+                  onChange={(e) => setDraft({ ...draft, transpose: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {TRANSPOSE_OPTIONS.map(value => (
+                    <option key={value} value={value}>
+                      {value > 0 ? `+${value}` : value}
+                      {writtenKey && ` (${formatKey(transposeKey(writtenKey, value))})`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="song-capo" className="block text-sm font-medium text-gray-700">
+                  Capo
+                </label>
+                <select
+                  id="song-capo"
+                  value={capo}
+                  onChange={(e) => setDraft({ ...draft, capo: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {CAPO_OPTIONS.map(value => (
+                    <option key={value} value={value}>{value ? `Fret ${value}` : 'None'}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Details</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="song-ccli" className="block text-sm font-medium text-gray-700">
+                  CCLI Song Number
+                </label>
+                <input
+                  id="song-ccli"
+                  type="text"
+                  inputMode="numeric"
+                  value={draft.ccli_number ?? ''}
+                  onChange={(e) => setDraft({ ...draft, ccli_number: e.target.value || null })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="song-publisher" className="block text-sm font-medium text-gray-700">
+                  Publisher
+                </label>
+                <input
+                  id="song-publisher"
+                  type="text"
+                  value={draft.publisher ?? ''}
+                  onChange={(e) => setDraft({ ...draft, publisher: e.target.value || null })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="song-copyright" className="block text-sm font-medium text-gray-700">
+                  Copyright
+                </label>
+                <input
+                  id="song-copyright"
+                  type="text"
+                  placeholder="e.g. © 1996 Example Music"
+                  value={draft.copyright ?? ''}
+                  onChange={(e) => setDraft({ ...draft, copyright: e.target.value || null })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4 md:col-span-2">
+                <div>
+                  <label htmlFor="song-key" className="block text-sm font-medium text-gray-700">
+                    Original Key
+                  </label>
+                  <select
+                    id="song-key"
+                    value={draft.original_key ?? ''}
+                    onChange={(e) => setDraft({ ...draft, original_key: e.target.value || null })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="">{writtenKey ? `Not set (chords in ${formatKey(writtenKey)})` : 'Not set'}</option>
+                    {draft.original_key && !SONG_KEYS.includes(draft.original_key) && (
+                      <option value={draft.original_key}>{draft.original_key}</option>
+                    )}
+                    {SONG_KEYS.map(key => (
+                      <option key={key} value={key}>{key}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="song-tempo" className="block text-sm font-medium text-gray-700">
+                    Tempo (BPM)
+                  </label>
+                  <input
+                    id="song-tempo"
+                    type="number"
+                    min={MIN_TEMPO}
+                    max={MAX_TEMPO}
+                    step={1}
+                    value={draft.tempo ?? ''}
+                    onChange={(e) => setDraft({ ...draft, tempo: e.target.value ? Number(e.target.value) : null })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="song-time" className="block text-sm font-medium text-gray-700">
+                    Time Signature
+                  </label>
+                  <select
+                    id="song-time"
+                    value={draft.time_signature ?? ''}
+                    onChange={(e) => setDraft({ ...draft, time_signature: e.target.value || null })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="">Not set</option>
+                    {TIME_SIGNATURES.map(signature => (
+                      <option key={signature} value={signature}>{signature}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="song-language" className="block text-sm font-medium text-gray-700">
+                  Language
+                </label>
+                <select
+                  id="song-language"
+                  value={draft.language ?? ''}
+                  onChange={(e) => setDraft({ ...draft, language: e.target.value || null })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value="">Not set</option>
+                  {draft.language && !SONG_LANGUAGES[draft.language] && (
+                    <option value={draft.language}>{draft.language}</option>
+                  )}
+                  {Object.entries(SONG_LANGUAGES).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="song-tags" className="block text-sm font-medium text-gray-700">
+                  Tags
+                </label>
+                <input
+                  id="song-tags"
+                  type="text"
+                  placeholder="e.g. communion, advent"
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          {writtenKey && (
+            <p className="text-sm text-gray-500">
+              Written in {formatKey(writtenKey)}, sung in {formatKey(transposeKey(writtenKey, transpose))}.
+              {capo > 0 && ` With the capo, musicians play ${formatKey(transposeKey(writtenKey, getChordShift(transpose, capo)))} shapes.`}
+            </p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Segments</h3>
+              <span className="text-xs text-gray-400">Drag to reorder</span>
+            </div>
+
+            {/* Each language gets a box under every segment's lyrics */}
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="text-sm text-gray-500">Translations:</span>
+              {translationLanguages.map(language => (
+                <span
+                  key={language}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-sm"
+                >
+                  {languageName(language)}
+                  <button
+                    type="button"
+                    onClick={() => removeTranslation(language)}
+                    className="text-indigo-400 hover:text-indigo-700"
+                    title={`Remove the ${languageName(language)} translation`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <select
+                value=""
+                onChange={(e) => addTranslation(e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm text-sm py-1 focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="">Add a language...</option>
+                {Object.entries(SONG_LANGUAGES)
+                  .filter(([code]) => code !== draft.language && !translationLanguages.includes(code))
+                  .map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+              </select>
+            </div>
+
+            <div className="space-y-3">
+              {draft.segments.map((segment, index) => (
+                <div
+                  key={segment.id}
+                  draggable
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    if (dragIndex !== null && dragIndex !== index) {
+                      moveSegment(dragIndex, index);
+                      setDragIndex(index);
+                    }
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`flex gap-3 p-3 rounded-lg border ${
+                    dragIndex === index ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-gray-50'
+                  }`}
+                >
+                  <div className="pt-2 cursor-move text-gray-400">
+                    <GripVertical className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                      <select
+                        value={segment.type}
+                        onChange={(e) => updateSegment(index, { type: e.target.value as SegmentType })}
+                        className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      >
+                        {SEGMENT_TYPES.map(type => (
+                          <option key={type} value={type}>{SEGMENT_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={segment.label ?? ''}
+                        onChange={(e) => updateSegment(index, { label: e.target.value })}
+                        placeholder={segmentNumbers.get(segment.id) || 'No.'}
+                        maxLength={8}
+                        title="Number shown after the segment type, e.g. 2 or 1b"
+                        className="w-16 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <textarea
+                      value={segment.content}
+                      onChange={(e) => updateSegment(index, { content: e.target.value })}
+                      rows={4}
+                      placeholder="Lyrics, with chords inline if you like, e.g. [G]Amazing grace"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                    {translationLanguages.map(language => (
+                      <div key={language}>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">
+                          {languageName(language)}
+                        </label>
+                        <textarea
+                          value={segment.translations?.[language] ?? ''}
+                          onChange={(e) => updateSegment(index, {
+                            translations: { ...segment.translations, [language]: e.target.value }
+                          })}
+                          rows={4}
+                          placeholder="The same lines, translated line for line, without chords"
+                          className="block w-full rounded-md border-gray-300 shadow-sm italic focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeSegment(index)}
+                    className="self-start pt-2 text-red-600 hover:text-red-700"
+                    title="Remove segment"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={addSegment}
+              className="mt-3 flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus className="w-4 h-4" />
+              Add Segment
+            </button>
+          </div>
+
+          <ArrangementEditor
+            segments={draft.segments}
+            arrangements={draft.arrangements ?? []}
+            onChange={(arrangements) => setDraft(prev => ({ ...prev, arrangements }))}
+          />
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Song'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,23 +1,67 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, AlertCircle } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Plus, Search, AlertCircle, Pencil, Trash2, ListPlus, FileText, ArrowDownUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { supabase, handleSupabaseError } from '../lib/supabase';
+import { getUserProfile, supabase, handleSupabaseError } from '../lib/supabase';
+import { canEditSongs, deleteSong, loadLibrary } from '../lib/songs';
+import {
+  loadSongFilterOptions,
+  NO_SONG_FILTERS,
+  SONG_PAGE_SIZE,
+  searchSongs,
+  splitSnippet,
+  type SongFilterOptions,
+  type SongFilters,
+  type SongSearchResult
+} from '../lib/songSearch';
+import { languageName } from '../lib/songMetadata';
+import { getDefaultArrangement } from '../lib/arrangements';
 import { usePresentationStore } from '../store/presentationStore';
-import type { Song } from '../types';
+import { SongEditor } from './SongEditor';
+import { LyricImport } from './LyricImport';
+import { SongTransfer } from './SongTransfer';
+import type { Song, UserRole } from '../types';
+
+// Searching waits for a pause in typing
+const SEARCH_DELAY = 300;
 
 export function SongLibrary() {
   const navigate = useNavigate();
-  const [songs, setSongs] = useState<Song[]>([]);
+  const [churchId, setChurchId] = useState<string | null>(null);
+  const [results, setResults] = useState<SongSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [filters, setFilters] = useState<SongFilters>(NO_SONG_FILTERS);
+  const [filterOptions, setFilterOptions] = useState<SongFilterOptions | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingSong, setEditingSong] = useState<Song | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  // The whole library, loaded when the import / export dialog opens
+  const [transferSongs, setTransferSongs] = useState<Song[] | null>(null);
+  const [queueArrangements, setQueueArrangements] = useState<Record<string, string>>({});
+  // Only the latest search is shown, whatever order the responses arrive in
+  const latestSearch = useRef(0);
   const { addToQueue } = usePresentationStore();
+  const canEdit = canEditSongs(role);
 
-  useEffect(() => {
-    loadSongs();
-  }, []);
+  const handleLoadError = useCallback((error: unknown) => {
+    const errorMessage = handleSupabaseError(error);
+    setError(errorMessage);
+    
+    // If it's an auth error, redirect to login
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('JWT') || 
+        message.includes('session') || 
+        message.includes('authentication')) {
+      navigate('/login', { replace: true });
+    }
+  }, [navigate]);
 
-  async function loadSongs() {
+  const loadProfile = useCallback(async () => {
     setLoading(true);
     setError(null);
 
@@ -30,67 +74,124 @@ export function SongLibrary() {
         return;
       }
 
-      // Get user's church_id with error handling
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('church_id')
-        .eq('id', session.user.id)
-        .maybeSingle(); // Use maybeSingle instead of single to avoid PGRST116
-
-      if (userError) throw userError;
-      
-      if (!userData) {
+      // The profile comes from the offline copy when the server can't be
+      // reached
+      let profile;
+      try {
+        profile = await getUserProfile();
+      } catch (error) {
         // User exists in auth but not in users table - needs to complete registration
-        navigate('/register', { replace: true });
-        return;
+        if (error instanceof Error && error.message.includes('complete registration')) {
+          navigate('/register', { replace: true });
+          return;
+        }
+        throw error;
       }
 
-      if (!userData.church_id) {
-        throw new Error('No church associated with your account. Please complete registration.');
-      }
+      setRole(profile.role);
+      setChurchId(profile.church_id);
+    } catch (error) {
+      handleLoadError(error);
+      setLoading(false);
+    }
+  }, [navigate, handleLoadError]);
+
+  const loadSongs = useCallback(async () => {
+    if (!churchId) return;
+    const search = ++latestSearch.current;
+    setLoading(true);
+    setError(null);
 
-      // Load songs with their segments
-      const { data: songsData, error: songsError } = await supabase
-        .from('songs')
-        .select(`
-          id,
-          title,
-          author,
-          church_id,
-          created_by,
-          created_at,
-          updated_at,
-          segments:song_segments (
-            id,
-            type,
-            order_num,
-            content
-          )
-        `)
-        .eq('church_id', userData.church_id)
-        .order('title', { ascending: true });
-
-      if (songsError) throw songsError;
-
-      // Transform and validate the data
-      const transformedSongs = songsData?.map(song => ({
-        ...song,
-        segments: (song.segments || []).sort((a, b) => a.order_num - b.order_num)
-      })) || [];
-
-      setSongs(transformedSongs);
+    try {
+      const songPage = await searchSongs(churchId, appliedQuery, page, filters);
+      if (search !== latestSearch.current) return;
+      setResults(songPage.results.map(result => ({
+        ...result,
+        song: {
+          ...result.song,
+          segments: [...(result.song.segments || [])].sort((a, b) => a.order_num - b.order_num)
+        }
+      })));
+      setTotal(songPage.total);
     } catch (error) {
-      const errorMessage = handleSupabaseError(error);
-      setError(errorMessage);
-      
-      // If it's an auth error, redirect to login
-      if (error?.message?.includes('JWT') || 
-          error?.message?.includes('session') || 
-          error?.message?.includes('authentication')) {
-        navigate('/login', { replace: true });
-      }
+      if (search === latestSearch.current) handleLoadError(error);
     } finally {
-      setLoading(false);
+      if (search === latestSearch.current) setLoading(false);
+    }
+  }, [churchId, appliedQuery, page, filters, handleLoadError]);
+
+  // A missing list of filters isn't worth an error; the library still works
+  const loadFilterOptions = useCallback(async () => {
+    if (!churchId) return;
+    try {
+      setFilterOptions(await loadSongFilterOptions(churchId));
+    } catch (error) {
+      console.error('Error loading song filters:', error);
+    }
+  }, [churchId]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  useEffect(() => {
+    loadSongs();
+  }, [loadSongs]);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, [loadFilterOptions]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setAppliedQuery(searchQuery);
+      setPage(0);
+    }, SEARCH_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [searchQuery]);
+
+  async function handleDeleteSong(song: Song) {
+    if (!confirm(`Delete "${song.title}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteSong(song.id);
+      // Step back if that was the only song on the last page
+      if (results.length === 1 && page > 0) {
+        setPage(page - 1);
+      } else {
+        loadSongs();
+      }
+      loadFilterOptions();
+    } catch (error) {
+      setError(handleSupabaseError(error));
+    }
+  }
+
+  function handleEditorClose() {
+    setShowAddModal(false);
+    setShowImportModal(false);
+    setEditingSong(null);
+  }
+
+  function handleSongSaved() {
+    handleEditorClose();
+    loadSongs();
+    loadFilterOptions();
+  }
+
+  function updateFilter(changes: Partial<SongFilters>) {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  }
+
+  const hasFilters = !!(filters.tag || filters.key || filters.language);
+
+  async function openTransfer() {
+    if (!churchId) return;
+    try {
+      setTransferSongs(await loadLibrary(churchId));
+    } catch (error) {
+      setError(handleSupabaseError(error));
     }
   }
 
@@ -98,13 +199,33 @@ export function SongLibrary() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Song Library</h1>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
-        >
-          <Plus className="w-4 h-4" />
-          Add New Song
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={openTransfer}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <ArrowDownUp className="w-4 h-4" />
+            {canEdit ? 'Import / Export' : 'Export'}
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50"
+              >
+                <FileText className="w-4 h-4" />
+                Import Lyrics
+              </button>
+              <button
+                onClick={() => setShowAddModal(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+              >
+                <Plus className="w-4 h-4" />
+                Add New Song
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -114,7 +235,7 @@ export function SongLibrary() {
             <p className="text-red-700">{error}</p>
           </div>
           <button
-            onClick={loadSongs}
+            onClick={churchId ? loadSongs : loadProfile}
             className="mt-2 text-sm text-red-600 hover:text-red-800 font-medium"
           >
             Try Again
@@ -128,12 +249,51 @@ export function SongLibrary() {
             <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
             <input
               type="text"
-              placeholder="Search songs..."
+              placeholder="Search titles, authors and lyrics..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10 w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
             />
           </div>
+          {!!filterOptions?.tags.length && (
+            <select
+              value={filters.tag ?? ''}
+              onChange={(e) => updateFilter({ tag: e.target.value || null })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              title="Filter by tag"
+            >
+              <option value="">All tags</option>
+              {filterOptions.tags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+          {!!filterOptions?.keys.length && (
+            <select
+              value={filters.key ?? ''}
+              onChange={(e) => updateFilter({ key: e.target.value || null })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              title="Filter by original key"
+            >
+              <option value="">All keys</option>
+              {filterOptions.keys.map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+          )}
+          {!!filterOptions?.languages.length && (
+            <select
+              value={filters.language ?? ''}
+              onChange={(e) => updateFilter({ language: e.target.value || null })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              title="Filter by language"
+            >
+              <option value="">All languages</option>
+              {filterOptions.languages.map(language => (
+                <option key={language} value={language}>{languageName(language)}</option>
+              ))}
+            </select>
+          )}
         </div>
 
         {loading ? (
@@ -141,37 +301,151 @@ export function SongLibrary() {
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
             <p className="mt-2 text-gray-500">Loading songs...</p>
           </div>
-        ) : songs.length === 0 ? (
+        ) : results.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
-            No songs found. Add your first song to get started!
+            {appliedQuery.trim()
+              ? `No songs match "${appliedQuery.trim()}".`
+              : hasFilters
+                ? 'No songs match these filters.'
+                : 'No songs found. Add your first song to get started!'}
           </div>
         ) : (
           <div className="space-y-4">
-            {songs
-              .filter(song => 
-                song.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                song.author.toLowerCase().includes(searchQuery.toLowerCase())
-              )
-              .map((song) => (
-                <div
-                  key={song.id}
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100"
-                >
-                  <div>
-                    <h3 className="font-medium">{song.title}</h3>
-                    <p className="text-sm text-gray-500">{song.author}</p>
-                  </div>
+            {results.map(({ song, snippet }) => (
+              <div
+                key={song.id}
+                className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100"
+              >
+                <div>
+                  <h3 className="font-medium">{song.title}</h3>
+                  <p className="text-sm text-gray-500">{song.author}</p>
+                  {snippet && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      {splitSnippet(snippet).map((part, index) => part.match ? (
+                        <mark key={index} className="bg-yellow-200 rounded-sm">{part.text}</mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      ))}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {[
+                      `${song.segments.length} segments`,
+                      song.original_key && `Key of ${song.original_key}`,
+                      song.tempo && `${song.tempo} BPM`,
+                      song.ccli_number && `CCLI #${song.ccli_number}`
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                  {!!song.tags?.length && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {song.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => updateFilter({ tag })}
+                          className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs hover:bg-indigo-100"
+                          title="Show songs with this tag"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => setEditingSong(song)}
+                        className="text-gray-500 hover:text-indigo-600"
+                        title="Edit song"
+                      >
+                        <Pencil className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSong(song)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete song"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </>
+                  )}
+                  {(song.arrangements?.length ?? 0) > 1 && (
+                    <select
+                      value={queueArrangements[song.id] ?? getDefaultArrangement(song).id}
+                      onChange={(e) => setQueueArrangements(prev => ({ ...prev, [song.id]: e.target.value }))}
+                      className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      title="Arrangement to use in the queue"
+                    >
+                      {song.arrangements!.map(arrangement => (
+                        <option key={arrangement.id} value={arrangement.id}>{arrangement.name}</option>
+                      ))}
+                    </select>
+                  )}
                   <button
-                    onClick={() => addToQueue(song)}
+                    onClick={() => addToQueue(song, queueArrangements[song.id] ?? null)}
                     className="text-indigo-600 hover:text-indigo-800"
+                    title="Add to queue"
                   >
-                    <Plus className="w-5 h-5" />
+                    <ListPlus className="w-5 h-5" />
                   </button>
                 </div>
-              ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {total > SONG_PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-6 text-sm text-gray-600">
+            <span>
+              Showing {page * SONG_PAGE_SIZE + 1}–{Math.min((page + 1) * SONG_PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={loading || page === 0}
+                className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={loading || (page + 1) * SONG_PAGE_SIZE >= total}
+                className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
           </div>
         )}
       </div>
+
+      {(showAddModal || editingSong) && (
+        <SongEditor
+          song={editingSong}
+          onClose={handleEditorClose}
+          onSaved={handleSongSaved}
+        />
+      )}
+
+      {showImportModal && (
+        <LyricImport
+          onClose={handleEditorClose}
+          onSaved={handleSongSaved}
+        />
+      )}
+
+      {transferSongs && (
+        <SongTransfer
+          songs={transferSongs}
+          canImport={canEdit}
+          onClose={() => setTransferSongs(null)}
+          onImported={() => {
+            loadSongs();
+            loadFilterOptions();
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Upload, X } from 'lucide-react';
+import { downloadBlob, downloadText } from '../lib/download';
+import {
+  createBackup,
+  createOpenLyricsArchive,
+  importSongs,
+  readImportFiles,
+  type DuplicateResolution,
+  type ImportCandidate,
+  type ImportResult
+} from '../lib/songTransfer';
+import type { Song } from '../types';
+
+interface SongTransferProps {
+  songs: Song[];
+  canImport: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  'keep-both': 'Keep both'
+};
+
+export function SongTransfer({ songs, canImport, onClose, onImported }: SongTransferProps) {
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [readErrors, setReadErrors] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const duplicates = candidates.filter(candidate => candidate.duplicateOf);
+  const dateStamp = new Date().toISOString().slice(0, 10);
+
+  const exportBackup = () => {
+    downloadText(
+      `song-library-${dateStamp}.json`,
+      JSON.stringify(createBackup(songs), null, 2),
+      'application/json'
+    );
+  };
+
+  const exportOpenLyrics = () => {
+    downloadBlob(`song-library-openlyrics-${dateStamp}.zip`, createOpenLyricsArchive(songs));
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setResult(null);
+    const { candidates, errors } = await readImportFiles(files, songs);
+    setCandidates(candidates);
+    setReadErrors(errors);
+  };
+
+  const setResolution = (index: number, resolution: DuplicateResolution) => {
+    setCandidates(prev => prev.map((candidate, i) => (i === index ? { ...candidate, resolution } : candidate)));
+  };
+
+  const setAllResolutions = (resolution: DuplicateResolution) => {
+    setCandidates(prev => prev.map(candidate => (candidate.duplicateOf ? { ...candidate, resolution } : candidate)));
+  };
+
+  const runImport = async () => {
+    setProgress({ done: 0, total: candidates.length });
+    try {
+      const importResult = await importSongs(candidates, (done, total) => setProgress({ done, total }));
+      setResult(importResult);
+      setCandidates([]);
+      onImported();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-xl font-semibold">Import &amp; Export</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <section>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Export {songs.length} songs</h3>
+            <div className="flex gap-3">
+              <button
+                onClick={exportOpenLyrics}
+                disabled={songs.length === 0}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                OpenLyrics XML (.zip)
+              </button>
+              <button
+                onClick={exportBackup}
+                disabled={songs.length === 0}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                JSON backup
+              </button>
+            </div>
+          </section>
+
+          {canImport && (
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Import</h3>
+              <label className="flex items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-indigo-400 hover:text-indigo-600 cursor-pointer">
+                <Upload className="w-5 h-5" />
+                Choose OpenLyrics .xml files or a .json backup
+                <input
+                  type="file"
+                  accept=".xml,.json"
+                  multiple
+                  onChange={handleFiles}
+                  className="hidden"
+                />
+              </label>
+
+              {readErrors.length > 0 && (
+                <div className="mt-3 bg-red-50 border-l-4 border-red-400 p-3 rounded-md text-sm text-red-700 space-y-1">
+                  {readErrors.map(message => (
+                    <div key={message} className="flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      {message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {candidates.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-600">
+                      {candidates.length} songs found, {duplicates.length} already in your library.
+                    </p>
+                    {duplicates.length > 1 && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-gray-500">All duplicates:</span>
+                        {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                          <button
+                            key={resolution}
+                            onClick={() => setAllResolutions(resolution)}
+                            className="text-indigo-600 hover:text-indigo-800 font-medium"
+                          >
+                            {RESOLUTION_LABELS[resolution]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {candidates.map((candidate, index) => (
+                      <div
+                        key={`${candidate.source}-${index}`}
+                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                      >
+                        <div>
+                          <h4 className="font-medium">{candidate.draft.title}</h4>
+                          <p className="text-sm text-gray-500">
+                            {candidate.draft.author || 'Unknown author'} · {candidate.draft.segments.length} segments
+                          </p>
+                        </div>
+                        {candidate.duplicateOf ? (
+                          <select
+                            value={candidate.resolution}
+                            onChange={(e) => setResolution(index, e.target.value as DuplicateResolution)}
+                            className="rounded-md border-yellow-300 bg-yellow-50 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                          >
+                            {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                              <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs font-medium text-green-700 bg-green-100 px-2 py-1 rounded-full">New</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result && (
+                <div className="mt-4 bg-green-50 text-green-700 p-4 rounded-lg text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    <CheckCircle className="w-4 h-4" />
+                    {result.imported} imported, {result.overwritten} overwritten, {result.skipped} skipped
+                  </div>
+                  {result.failed.length > 0 && (
+                    <ul className="mt-2 text-red-700 list-disc list-inside">
+                      {result.failed.map(failure => (
+                        <li key={failure.title}>{failure.title}: {failure.error}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+          {canImport && candidates.length > 0 && (
+            <button
+              type="button"
+              onClick={runImport}
+              disabled={progress !== null}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {progress ? `Importing ${progress.done}/${progress.total}...` : 'Import Songs'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { getSlideHeading, getSlideText } from '../lib/slides';
+import { markCurrentLines } from '../lib/lineStepping';
+import { hasInlineChords, splitChordLine } from '../lib/chords';
+import type { DisplayOverlay, LineCursor, Slide } from '../types';
+
+interface StageDisplayProps {
+  slide: Slide | null;
+  upNext: Slide | null;
+  overlay: DisplayOverlay | null;
+  message: string;
+  highlight?: LineCursor | null;
+}
+
+const OVERLAY_LABELS: Record<DisplayOverlay, string> = {
+  black: 'Screen black',
+  clear: 'Screen cleared',
+  logo: 'Showing logo'
+};
+
+function Clock() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  return (
+    <span className="font-mono tabular-nums">
+      {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+    </span>
+  );
+}
+
+// Each chord sits above the lyric it's played on
+function ChordLine({ line }: { line: string }) {
+  return (
+    <div className="flex flex-wrap items-end">
+      {splitChordLine(line).map((piece, index) => (
+        <span key={index} className="inline-flex flex-col whitespace-pre">
+          <span className="text-[0.6em] text-cyan-300 pr-[0.3em]">{piece.chord ?? '\u00a0'}</span>
+          <span>{piece.lyric || '\u00a0'}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function StageLines({ slide, highlight }: { slide: Slide; highlight: LineCursor | null }) {
+  const text = getSlideText(slide);
+  const chordLines = slide.type === 'song' ? slide.chords?.split('\n') ?? null : null;
+  const lines = highlight
+    ? markCurrentLines(text, highlight)
+    : text.split('\n').map(line => ({ text: line, current: true }));
+
+  return (
+    <>
+      {lines.map(({ text: line, current }, index) => (
+        <div key={index} className={highlight ? (current ? 'text-yellow-300' : 'text-gray-500') : undefined}>
+          {chordLines?.[index] && hasInlineChords(chordLines[index])
+            ? <ChordLine line={chordLines[index]} />
+            : line || '\u00a0'}
+        </div>
+      ))}
+    </>
+  );
+}
+
+// The confidence monitor for the band: the live words, with a song's chords,
+// what comes next, the time and a message from the operator. It ignores the
+// church's theme and keeps the words on screen while the main screen is
+// blacked out, so the musicians never lose their place.
+export function StageDisplay({ slide, upNext, overlay, message, highlight = null }: StageDisplayProps) {
+  return (
+    <div className="w-full h-full bg-black text-white flex flex-col p-12 gap-8">
+      <div className="flex items-center justify-between text-4xl">
+        <div className="flex items-center gap-6 min-w-0">
+          <span className="font-semibold text-yellow-300 truncate">
+            {slide ? getSlideHeading(slide) : 'Nothing live'}
+          </span>
+          {overlay && (
+            <span className="px-4 py-1 rounded-lg bg-red-600 text-3xl">{OVERLAY_LABELS[overlay]}</span>
+          )}
+        </div>
+        <Clock />
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-hidden text-7xl leading-tight font-semibold">
+        {slide && <StageLines slide={slide} highlight={highlight} />}
+      </div>
+
+      <div className="h-[260px] shrink-0 border-t-4 border-gray-700 pt-6 overflow-hidden text-gray-400">
+        <div className="text-3xl font-semibold mb-2">
+          Next: {upNext ? getSlideHeading(upNext) : 'End of queue'}
+        </div>
+        <div className="text-4xl leading-snug whitespace-pre-line line-clamp-3">
+          {upNext && getSlideText(upNext)}
+        </div>
+      </div>
+
+      {message && (
+        <div className="shrink-0 px-8 py-4 rounded-lg bg-yellow-400 text-black text-5xl font-bold truncate">
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, X } from 'lucide-react';
+import { getOfflineStatus, onOfflineStatusChange, type PendingEdit } from '../lib/offline';
+import { discardOfflineEdit, keepOfflineEdit, startOfflineSync } from '../lib/sync';
+
+const KIND_LABELS: Record<PendingEdit['kind'], string> = {
+  song: 'Song',
+  service: 'Service',
+  usage: 'Song usage'
+};
+
+function describeProblem(edit: PendingEdit): string {
+  if (edit.problem?.type === 'error') return `Couldn't be saved: ${edit.problem.message}`;
+  if (edit.problem?.serverUpdatedAt === null) return 'Deleted by someone else while you were offline';
+  return 'Changed by someone else while you were offline';
+}
+
+export function SyncStatus() {
+  const [status, setStatus] = useState(getOfflineStatus);
+  const [showProblems, setShowProblems] = useState(false);
+  const [resolving, setResolving] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const removeListener = onOfflineStatusChange(setStatus);
+    const stopSync = startOfflineSync();
+    return () => {
+      removeListener();
+      stopSync();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!status.problems.length) setShowProblems(false);
+  }, [status.problems.length]);
+
+  const resolve = async (edit: PendingEdit, keep: boolean) => {
+    setResolving(edit.id!);
+    setError(null);
+    try {
+      await (keep ? keepOfflineEdit(edit) : discardOfflineEdit(edit));
+    } catch (err) {
+      console.error('Error resolving offline edit:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resolve the change');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const { online, syncing, pending, problems } = status;
+  if (online && !syncing && !pending && !problems.length) return null;
+
+  return (
+    <div className="px-4 pb-4 space-y-2 text-sm">
+      {!online && (
+        <div className="flex items-center gap-2 p-2 rounded-lg bg-gray-100 text-gray-700">
+          <CloudOff className="w-4 h-4" />
+          Offline, using saved copy
+        </div>
+      )}
+      {pending > 0 && (
+        <div className="flex items-center gap-2 p-2 rounded-lg bg-indigo-50 text-indigo-700">
+          <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+          {syncing
+            ? 'Syncing changes…'
+            : `${pending} ${pending === 1 ? 'change' : 'changes'} waiting to sync`}
+        </div>
+      )}
+      {problems.length > 0 && (
+        <button
+          onClick={() => setShowProblems(true)}
+          className="w-full flex items-center gap-2 p-2 rounded-lg bg-yellow-50 text-yellow-800 hover:bg-yellow-100"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {problems.length} {problems.length === 1 ? 'change needs' : 'changes need'} review
+        </button>
+      )}
+
+      {showProblems && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col">
+            <div className="flex items-center justify-between px-6 py-4 border-b">
+              <h2 className="text-xl font-semibold">Offline changes</h2>
+              <button onClick={() => setShowProblems(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{error}</div>
+              )}
+              <ul className="divide-y">
+                {problems.map(edit => (
+                  <li key={edit.id} className="py-3">
+                    <p className="font-medium">
+                      {KIND_LABELS[edit.kind]}: {edit.label}
+                    </p>
+                    <p className="text-gray-500">{describeProblem(edit)}</p>
+                    <p className="text-xs text-gray-400">
+                      Edited {new Date(edit.queuedAt).toLocaleString()}
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => resolve(edit, true)}
+                        disabled={resolving !== null || !online}
+                        className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                        title="Save your offline version over the current one"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        onClick={() => resolve(edit, false)}
+                        disabled={resolving !== null}
+                        className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        title="Throw away your offline version"
+                      >
+                        Discard mine
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
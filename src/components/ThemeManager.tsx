@@ -0,0 +1,565 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Palette, Plus, Star, Trash2 } from 'lucide-react';
+import { handleSupabaseError } from '../lib/supabase';
+import {
+  CREDIT_SLIDE_LABELS,
+  DEFAULT_THEME_SETTINGS,
+  deleteTheme,
+  loadThemes,
+  saveTheme,
+  setDefaultTheme,
+  SLIDE_TRANSITION_LABELS,
+  THEME_FONTS
+} from '../lib/themes';
+import { SlidePreview } from './SlidePreview';
+import type { CreditSlide, PresentationTheme, PresentationThemeSettings, Slide, SlideTransition, WatermarkPosition } from '../types';
+
+interface ThemeManagerProps {
+  churchId: string | undefined;
+  defaultThemeId: string | null;
+  logoUrl: string | null;
+  onDefaultChange: (themeId: string | null) => void;
+}
+
+interface ThemeDraft {
+  id?: string;
+  name: string;
+  settings: PresentationThemeSettings;
+}
+
+const SAMPLE_SLIDE: Extract<Slide, { type: 'song' }> = {
+  type: 'song',
+  song: { id: 'sample', title: 'Amazing Grace', author: 'John Newton' },
+  segment: {
+    id: 'sample-verse',
+    type: 'verse',
+    order_num: 1,
+    content: 'Amazing grace, how sweet the sound\nThat saved a wretch like me\nI once was lost, but now am found\nWas blind, but now I see'
+  },
+  label: 'Verse 1',
+  translation: null,
+  part: 0,
+  parts: 1,
+  chords: null,
+  credit: 'John Newton · Public domain'
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+const colorClassName = 'mt-1 block w-full h-10 rounded-md border-gray-300 shadow-sm';
+
+export function ThemeManager({ churchId, defaultThemeId, logoUrl, onDefaultChange }: ThemeManagerProps) {
+  const [themes, setThemes] = useState<PresentationTheme[]>([]);
+  const [draft, setDraft] = useState<ThemeDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadThemes()
+      .then(setThemes)
+      .catch(err => setError(handleSupabaseError(err)));
+  }, []);
+
+  const updateSettings = (changes: Partial<PresentationThemeSettings>) => {
+    setDraft(current => current && { ...current, settings: { ...current.settings, ...changes } });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveTheme({ ...draft, name: draft.name.trim() });
+      setThemes(current => [...current.filter(theme => theme.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft({ id: saved.id, name: saved.name, settings: saved.settings });
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (theme: PresentationTheme) => {
+    if (!confirm(`Delete the theme "${theme.name}"?`)) return;
+
+    setError(null);
+    try {
+      await deleteTheme(theme.id);
+      setThemes(current => current.filter(t => t.id !== theme.id));
+      if (draft?.id === theme.id) setDraft(null);
+      // The database clears the church default along with the theme
+      if (defaultThemeId === theme.id) onDefaultChange(null);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    }
+  };
+
+  const handleSetDefault = async (themeId: string | null) => {
+    if (!churchId) return;
+
+    setError(null);
+    try {
+      await setDefaultTheme(churchId, themeId);
+      onDefaultChange(themeId);
+    } catch (err) {
+      setError(handleSupabaseError(err));
+    }
+  };
+
+  const settings = draft?.settings;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 md:col-span-2">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Palette className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-medium">Presentation Themes</h2>
+        </div>
+        <button
+          type="button"
+          onClick={() => setDraft({ name: '', settings: DEFAULT_THEME_SETTINGS })}
+          disabled={!churchId}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          New Theme
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border-l-4 border-red-400">
+          <div className="flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          {themes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No themes yet. Slides use white text on black until a default theme is set.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {themes.map(theme => (
+                <li key={theme.id} className="flex items-center gap-2 py-2">
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ id: theme.id, name: theme.name, settings: theme.settings })}
+                    className={`flex-1 text-left truncate ${
+                      draft?.id === theme.id ? 'font-medium text-indigo-600' : 'text-gray-700 hover:text-indigo-600'
+                    }`}
+                  >
+                    {theme.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSetDefault(defaultThemeId === theme.id ? null : theme.id)}
+                    className={defaultThemeId === theme.id ? 'text-amber-500' : 'text-gray-300 hover:text-amber-500'}
+                    title={defaultThemeId === theme.id ? 'Default theme (click to unset)' : 'Set as default'}
+                  >
+                    <Star className="w-4 h-4" fill={defaultThemeId === theme.id ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(theme)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete theme"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          {draft && settings ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <SlidePreview
+                label="Preview"
+                caption={draft.name || 'Untitled theme'}
+                slide={settings.credit_slide === 'none' ? { ...SAMPLE_SLIDE, credit: null } : SAMPLE_SLIDE}
+                logoUrl={logoUrl}
+                theme={settings}
+              />
+
+              <div>
+                <label htmlFor="theme-name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  id="theme-name"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="theme-background" className="block text-sm font-medium text-gray-700">
+                    Background
+                  </label>
+                  <select
+                    id="theme-background"
+                    value={settings.background_type}
+                    onChange={(e) => updateSettings({ background_type: e.target.value as PresentationThemeSettings['background_type'] })}
+                    className={inputClassName}
+                  >
+                    <option value="color">Colour</option>
+                    <option value="gradient">Gradient</option>
+                    <option value="image">Image</option>
+                  </select>
+                </div>
+
+                {settings.background_type === 'gradient' ? (
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">From</label>
+                      <input
+                        type="color"
+                        value={settings.gradient_start}
+                        onChange={(e) => updateSettings({ gradient_start: e.target.value })}
+                        className={colorClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">To</label>
+                      <input
+                        type="color"
+                        value={settings.gradient_end}
+                        onChange={(e) => updateSettings({ gradient_end: e.target.value })}
+                        className={colorClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Angle</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={360}
+                        value={settings.gradient_angle}
+                        onChange={(e) => updateSettings({ gradient_angle: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {settings.background_type === 'image' ? 'Colour behind image' : 'Colour'}
+                    </label>
+                    <input
+                      type="color"
+                      value={settings.background_color}
+                      onChange={(e) => updateSettings({ background_color: e.target.value })}
+                      className={colorClassName}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {settings.background_type === 'image' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="theme-image" className="block text-sm font-medium text-gray-700">
+                      Image URL
+                    </label>
+                    <input
+                      id="theme-image"
+                      type="url"
+                      value={settings.background_image_url ?? ''}
+                      onChange={(e) => updateSettings({ background_image_url: e.target.value.trim() || null })}
+                      className={inputClassName}
+                      placeholder="https://…"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="theme-dim" className="block text-sm font-medium text-gray-700">
+                      Darken image ({Math.round(settings.background_dim * 100)}%)
+                    </label>
+                    <input
+                      id="theme-dim"
+                      type="range"
+                      min={0}
+                      max={0.9}
+                      step={0.05}
+                      value={settings.background_dim}
+                      onChange={(e) => updateSettings({ background_dim: Number(e.target.value) })}
+                      className="mt-3 block w-full"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="theme-font" className="block text-sm font-medium text-gray-700">
+                    Font
+                  </label>
+                  <select
+                    id="theme-font"
+                    value={settings.font_family}
+                    onChange={(e) => updateSettings({ font_family: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {THEME_FONTS.map(font => (
+                      <option key={font.value} value={font.value}>{font.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="theme-size" className="block text-sm font-medium text-gray-700">
+                    Size (px)
+                  </label>
+                  <input
+                    id="theme-size"
+                    type="number"
+                    min={24}
+                    max={160}
+                    value={settings.font_size}
+                    onChange={(e) => updateSettings({ font_size: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Text colour</label>
+                  <input
+                    type="color"
+                    value={settings.text_color}
+                    onChange={(e) => updateSettings({ text_color: e.target.value })}
+                    className={colorClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-end">
+                <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.auto_fit}
+                    onChange={(e) => updateSettings({ auto_fit: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Fit lyrics to screen
+                </label>
+                {settings.auto_fit && (
+                  <>
+                    <div>
+                      <label htmlFor="theme-min-size" className="block text-sm font-medium text-gray-700">
+                        Smallest (px)
+                      </label>
+                      <input
+                        id="theme-min-size"
+                        type="number"
+                        min={16}
+                        max={settings.max_font_size}
+                        value={settings.min_font_size}
+                        onChange={(e) => updateSettings({ min_font_size: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="theme-max-size" className="block text-sm font-medium text-gray-700">
+                        Largest (px)
+                      </label>
+                      <input
+                        id="theme-max-size"
+                        type="number"
+                        min={settings.min_font_size}
+                        max={200}
+                        value={settings.max_font_size}
+                        onChange={(e) => updateSettings({ max_font_size: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              {settings.auto_fit && (
+                <p className="text-sm text-gray-500 -mt-2">
+                  Lyrics too long at the smallest size are split across several slides.
+                </p>
+              )}
+
+              <div className="flex gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.text_shadow}
+                    onChange={(e) => updateSettings({ text_shadow: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Drop shadow
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.text_outline}
+                    onChange={(e) => updateSettings({ text_outline: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Outline
+                </label>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="theme-align" className="block text-sm font-medium text-gray-700">
+                    Horizontal
+                  </label>
+                  <select
+                    id="theme-align"
+                    value={settings.text_align}
+                    onChange={(e) => updateSettings({ text_align: e.target.value as PresentationThemeSettings['text_align'] })}
+                    className={inputClassName}
+                  >
+                    <option value="left">Left</option>
+                    <option value="center">Centre</option>
+                    <option value="right">Right</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="theme-valign" className="block text-sm font-medium text-gray-700">
+                    Vertical
+                  </label>
+                  <select
+                    id="theme-valign"
+                    value={settings.vertical_align}
+                    onChange={(e) => updateSettings({ vertical_align: e.target.value as PresentationThemeSettings['vertical_align'] })}
+                    className={inputClassName}
+                  >
+                    <option value="top">Top</option>
+                    <option value="middle">Middle</option>
+                    <option value="bottom">Bottom</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="theme-margin" className="block text-sm font-medium text-gray-700">
+                    Margin (px)
+                  </label>
+                  <input
+                    id="theme-margin"
+                    type="number"
+                    min={0}
+                    max={400}
+                    value={settings.margin}
+                    onChange={(e) => updateSettings({ margin: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="theme-transition" className="block text-sm font-medium text-gray-700">
+                    Transition
+                  </label>
+                  <select
+                    id="theme-transition"
+                    value={settings.transition}
+                    onChange={(e) => updateSettings({ transition: e.target.value as SlideTransition })}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(SLIDE_TRANSITION_LABELS) as SlideTransition[]).map(transition => (
+                      <option key={transition} value={transition}>{SLIDE_TRANSITION_LABELS[transition]}</option>
+                    ))}
+                  </select>
+                </div>
+                {settings.transition !== 'cut' && (
+                  <div>
+                    <label htmlFor="theme-duration" className="block text-sm font-medium text-gray-700">
+                      Duration (ms)
+                    </label>
+                    <input
+                      id="theme-duration"
+                      type="number"
+                      min={100}
+                      max={3000}
+                      step={100}
+                      value={settings.transition_duration}
+                      onChange={(e) => updateSettings({ transition_duration: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="theme-credit" className="block text-sm font-medium text-gray-700">
+                    Song credits
+                  </label>
+                  <select
+                    id="theme-credit"
+                    value={settings.credit_slide}
+                    onChange={(e) => updateSettings({ credit_slide: e.target.value as CreditSlide })}
+                    className={inputClassName}
+                    title="Author, copyright and CCLI number"
+                  >
+                    {(Object.keys(CREDIT_SLIDE_LABELS) as CreditSlide[]).map(creditSlide => (
+                      <option key={creditSlide} value={creditSlide}>{CREDIT_SLIDE_LABELS[creditSlide]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.show_watermark}
+                    onChange={(e) => updateSettings({ show_watermark: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Logo watermark
+                </label>
+                {settings.show_watermark && (
+                  <select
+                    value={settings.watermark_position}
+                    onChange={(e) => updateSettings({ watermark_position: e.target.value as WatermarkPosition })}
+                    className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                  >
+                    <option value="top-left">Top left</option>
+                    <option value="top-right">Top right</option>
+                    <option value="bottom-left">Bottom left</option>
+                    <option value="bottom-right">Bottom right</option>
+                  </select>
+                )}
+                {settings.show_watermark && !logoUrl && (
+                  <span className="text-sm text-gray-500">Add a logo under Branding to see it</span>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !draft.name.trim()}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Theme'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-center justify-center h-48 rounded-lg border-2 border-dashed border-gray-300 text-sm text-gray-500">
+              Select a theme to edit, or create a new one
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { PresentationTheme } from '../types';
+
+interface ThemeSelectProps {
+  themes: PresentationTheme[];
+  value: string | null | undefined;
+  // Describes what applies when no override is chosen, e.g. "Church default"
+  inheritedLabel: string;
+  onChange: (themeId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ThemeSelect({ themes, value, inheritedLabel, onChange, disabled = false, className = '' }: ThemeSelectProps) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      className={`rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${className}`}
+      title="Presentation theme"
+    >
+      <option value="">{inheritedLabel}</option>
+      {themes.map(theme => (
+        <option key={theme.id} value={theme.id}>{theme.name}</option>
+      ))}
+    </select>
+  );
+}
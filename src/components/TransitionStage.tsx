@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import type { SlideTransition } from '../types';
+
+interface TransitionStageProps {
+  // Changes whenever a different slide or overlay is shown
+  frameId: number;
+  transition: SlideTransition;
+  duration: number;
+  children: React.ReactNode;
+}
+
+interface Layer {
+  id: number;
+  content: React.ReactNode;
+  transition: SlideTransition;
+  duration: number;
+}
+
+// Animates between frames. Only the outgoing frame is kept, and a new frame
+// replaces it mid-transition, so rapid changes never stack more than two.
+export function TransitionStage({ frameId, transition, duration, children }: TransitionStageProps) {
+  const [current, setCurrent] = useState<Layer>({ id: frameId, content: children, transition: 'cut', duration: 0 });
+  const [outgoing, setOutgoing] = useState<Layer | null>(null);
+
+  // Swapping layers during render rather than in an effect means the new
+  // frame never paints without its outgoing layer
+  if (frameId !== current.id) {
+    setOutgoing(transition === 'cut' ? null : current);
+    setCurrent({ id: frameId, content: children, transition, duration });
+  }
+
+  useEffect(() => {
+    if (!outgoing) return;
+    const timeout = window.setTimeout(() => setOutgoing(null), current.duration);
+    return () => window.clearTimeout(timeout);
+  }, [outgoing, current.duration]);
+
+  const half = current.duration / 2;
+  // Crossfade brings the new frame in over the old one; fade-black fades the
+  // old one out first, then the new one in
+  const incomingStyle = !outgoing
+    ? undefined
+    : current.transition === 'crossfade'
+      ? { animationDuration: `${current.duration}ms` }
+      : { animationDuration: `${half}ms`, animationDelay: `${half}ms` };
+
+  return (
+    <div className="relative w-full h-full bg-black">
+      {outgoing && (
+        <div
+          key={outgoing.id}
+          className={`absolute inset-0 ${current.transition === 'fade-black' ? 'animate-fade-out' : ''}`}
+          style={current.transition === 'fade-black' ? { animationDuration: `${half}ms` } : undefined}
+        >
+          {outgoing.content}
+        </div>
+      )}
+      <div
+        key={current.id}
+        className={`absolute inset-0 ${outgoing ? 'animate-fade-in' : ''}`}
+        style={incomingStyle}
+      >
+        {/* The live frame always shows the latest props */}
+        {children}
+      </div>
+    </div>
+  );
+}
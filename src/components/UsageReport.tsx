@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Download } from 'lucide-react';
+import { handleSupabaseError } from '../lib/supabase';
+import { addDays, formatServiceDate, toDateString } from '../lib/services';
+import { loadUsageReport, usageReportToCsv, type SongUsageSummary } from '../lib/usage';
+import { downloadText } from '../lib/download';
+
+// CCLI reports cover six months at a time
+function defaultRange(): { from: string; to: string } {
+  const today = new Date();
+  const from = new Date(today.getFullYear(), today.getMonth() - 6, today.getDate());
+  return { from: addDays(toDateString(from), 1), to: toDateString(today) };
+}
+
+export function UsageReport() {
+  const [range, setRange] = useState(defaultRange);
+  const [rows, setRows] = useState<SongUsageSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const missingNumbers = rows.filter(row => !row.ccli_number).length;
+  const validRange = !!range.from && !!range.to && range.from <= range.to;
+
+  const loadReport = useCallback(async () => {
+    if (!validRange) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setRows(await loadUsageReport(range.from, range.to));
+    } catch (error) {
+      setError(handleSupabaseError(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [range, validRange]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  function exportCsv() {
+    downloadText(`ccli-usage-${range.from}-to-${range.to}.csv`, usageReportToCsv(rows), 'text/csv');
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Song Usage</h1>
+        <button
+          onClick={exportCsv}
+          disabled={loading || rows.length === missingNumbers}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Export CCLI Report
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 rounded-md">
+          <div className="flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
+            <p className="text-red-700">{error}</p>
+          </div>
+          <button
+            onClick={loadReport}
+            className="mt-2 text-sm text-red-600 hover:text-red-800 font-medium"
+          >
+            Try Again
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="usage-from" className="block text-sm font-medium text-gray-700">
+              From
+            </label>
+            <input
+              id="usage-from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="usage-to" className="block text-sm font-medium text-gray-700">
+              To
+            </label>
+            <input
+              id="usage-to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <p className="text-sm text-gray-500 pb-2">
+            A song counts once for each service it was shown in.
+          </p>
+        </div>
+
+        {!validRange ? (
+          <p className="text-center py-8 text-gray-500">Choose a start date before the end date.</p>
+        ) : loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading usage...</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">
+            No songs were shown between {formatServiceDate(range.from)} and {formatServiceDate(range.to)}.
+          </p>
+        ) : (
+          <>
+            {missingNumbers > 0 && (
+              <div className="p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+                {missingNumbers === 1 ? '1 song has' : `${missingNumbers} songs have`} no CCLI number and
+                {missingNumbers === 1 ? ' is' : ' are'} left out of the export. Add the numbers in the song library.
+              </div>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Song</th>
+                  <th className="py-2 font-medium">CCLI #</th>
+                  <th className="py-2 font-medium text-right">Uses</th>
+                  <th className="py-2 font-medium text-right">Times shown</th>
+                  <th className="py-2 font-medium text-right">Last used</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={`${row.song_id ?? ''}:${row.ccli_number ?? ''}:${row.title}`} className="border-b last:border-0">
+                    <td className="py-2">
+                      <div className="font-medium">{row.title}</div>
+                      <div className="text-gray-500">
+                        {[row.author, row.copyright].filter(Boolean).join(' · ')}
+                        {!row.song_id && ' (deleted)'}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      {row.ccli_number ?? <span className="text-yellow-700">Missing</span>}
+                    </td>
+                    <td className="py-2 text-right">{row.uses}</td>
+                    <td className="py-2 text-right text-gray-500">{row.times_shown}</td>
+                    <td className="py-2 text-right text-gray-500">{formatServiceDate(row.last_used)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
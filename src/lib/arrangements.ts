@@ -0,0 +1,111 @@
+import { SEGMENT_TYPE_CODES, SEGMENT_TYPE_LABELS } from './segmentTypes';
+import type { Song, SongArrangement, SongSegment } from '../types';
+
+type SegmentLike = Pick<SongSegment, 'id' | 'type' | 'order_num' | 'label'>;
+
+function byOrder<T extends SegmentLike>(segments: T[]): T[] {
+  return [...segments].sort((a, b) => a.order_num - b.order_num);
+}
+
+// Used when a song has no stored arrangements: every segment once, in
+// order_num order.
+export function naturalArrangement(song: Pick<Song, 'id' | 'segments'>): SongArrangement {
+  return {
+    id: `${song.id}:natural`,
+    name: 'Song order',
+    sequence: byOrder(song.segments).map(segment => segment.id),
+    is_default: true
+  };
+}
+
+export function getDefaultArrangement(song: Song): SongArrangement {
+  const arrangements = song.arrangements ?? [];
+  return arrangements.find(a => a.is_default) ?? arrangements[0] ?? naturalArrangement(song);
+}
+
+export function getArrangement(song: Song, arrangementId: string | null | undefined): SongArrangement {
+  return song.arrangements?.find(a => a.id === arrangementId) ?? getDefaultArrangement(song);
+}
+
+// Resolves an arrangement to the segments to show, in play order. Ids that no
+// longer match a segment are skipped.
+export function getSongSequence(song: Song, arrangementId: string | null | undefined): SongSegment[] {
+  const segments = new Map(song.segments.map(segment => [segment.id, segment]));
+  return getArrangement(song, arrangementId).sequence
+    .map(id => segments.get(id))
+    .filter((segment): segment is SongSegment => !!segment);
+}
+
+// Each segment's number: its label when it has one, otherwise its place
+// among the segments of its type ("" when a type only occurs once), keyed by
+// segment id.
+export function getSegmentNumbers(segments: SegmentLike[]): Map<string, string> {
+  const ordered = byOrder(segments);
+  const totals = new Map<string, number>();
+  ordered.forEach(segment => totals.set(segment.type, (totals.get(segment.type) ?? 0) + 1));
+
+  const seen = new Map<string, number>();
+  const numbers = new Map<string, string>();
+  for (const segment of ordered) {
+    const count = (seen.get(segment.type) ?? 0) + 1;
+    seen.set(segment.type, count);
+    const label = segment.label?.trim();
+    numbers.set(segment.id, label || ((totals.get(segment.type) ?? 0) > 1 ? String(count) : ''));
+  }
+  return numbers;
+}
+
+// Short codes for each segment: "V1", "V2", "C", "C1b", keyed by segment id.
+// A label starting with a letter is set off with a hyphen ("V-A"), as the
+// codes themselves run to two letters: "VA" is the vamp.
+export function getSegmentCodes(segments: SegmentLike[]): Map<string, string> {
+  const codes = new Map<string, string>();
+  const types = new Map(segments.map(segment => [segment.id, segment.type]));
+  getSegmentNumbers(segments).forEach((number, id) => {
+    const separator = /^\p{L}/u.test(number) ? '-' : '';
+    codes.set(id, `${SEGMENT_TYPE_CODES[types.get(id)!]}${separator}${number}`);
+  });
+  return codes;
+}
+
+// Names for each segment: "Verse 1", "Chorus", "Chorus 1b", keyed by segment id.
+export function getSegmentLabels(segments: SegmentLike[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  const types = new Map(segments.map(segment => [segment.id, segment.type]));
+  getSegmentNumbers(segments).forEach((number, id) => {
+    labels.set(id, [SEGMENT_TYPE_LABELS[types.get(id)!], number].filter(Boolean).join(' '));
+  });
+  return labels;
+}
+
+export function formatArrangement(sequence: string[], segments: SegmentLike[]): string {
+  const codes = getSegmentCodes(segments);
+  return sequence.map(id => codes.get(id)).filter(Boolean).join(' ');
+}
+
+export interface ParsedArrangement {
+  sequence: string[];
+  invalidTokens: string[];
+}
+
+// Parses "V1 C V2 C B C C" into segment ids, ignoring case. "C" and "C1"
+// are interchangeable when there is a single chorus.
+export function parseArrangement(text: string, segments: SegmentLike[]): ParsedArrangement {
+  const lookup = new Map<string, string>();
+  const numbers = getSegmentNumbers(segments);
+  getSegmentCodes(segments).forEach((code, id) => {
+    const key = code.toUpperCase();
+    if (!lookup.has(key)) lookup.set(key, id);
+    if (!numbers.get(id) && !lookup.has(`${key}1`)) lookup.set(`${key}1`, id);
+  });
+
+  const sequence: string[] = [];
+  const invalidTokens: string[] = [];
+  for (const token of text.toUpperCase().split(/[\s,]+/).filter(Boolean)) {
+    const id = lookup.get(token);
+    if (id) sequence.push(id);
+    else invalidTokens.push(token);
+  }
+
+  return { sequence, invalidTokens };
+}
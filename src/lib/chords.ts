@@ -0,0 +1,157 @@
+// Chords are stored inline in segment content using ChordPro notation, e.g.
+// "[G]Amazing [G7]grace, how [C]sweet the [G]sound".
+
+const CHORD_BODY = '[A-G](?:#|b)?(?:maj|min|m|dim|aug|sus|add|M)?\\d*(?:(?:sus|add|b|#)\\d+)*(?:\\/[A-G](?:#|b)?)?';
+
+export const CHORD_PATTERN = new RegExp(`^${CHORD_BODY}$`);
+
+const INLINE_CHORD_PATTERN = new RegExp(`\\[(${CHORD_BODY})\\]`, 'g');
+
+export function isChord(token: string): boolean {
+  return CHORD_PATTERN.test(token);
+}
+
+// A "chord line" is a line made up only of chord names, as found in chord
+// charts where the chords are written above the lyrics.
+export function isChordLine(line: string): boolean {
+  const tokens = line.trim().split(/\s+/).filter(token => token && token !== '|');
+  return tokens.length > 0 && tokens.every(isChord);
+}
+
+export function hasInlineChords(text: string): boolean {
+  return new RegExp(INLINE_CHORD_PATTERN.source).test(text);
+}
+
+export function stripChords(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(INLINE_CHORD_PATTERN, '').replace(/ {2,}/g, ' ').trimEnd())
+    .join('\n');
+}
+
+// Merges a chord line written above a lyric line into a single line with
+// inline ChordPro chords, using the column position of each chord.
+export function mergeChordLine(chordLine: string, lyricLine: string): string {
+  const chords: Array<{ column: number; chord: string }> = [];
+  const tokenPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(chordLine)) !== null) {
+    if (match[0] !== '|') {
+      chords.push({ column: match.index, chord: match[0] });
+    }
+  }
+
+  let result = lyricLine.padEnd(chords.length ? chords[chords.length - 1].column : 0);
+  for (let i = chords.length - 1; i >= 0; i--) {
+    const { column, chord } = chords[i];
+    result = `${result.slice(0, column)}[${chord}]${result.slice(column)}`;
+  }
+
+  return result.trimEnd();
+}
+
+const SHARP_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NOTES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const NOTE_INDEX: Record<string, number> = {
+  ...Object.fromEntries(SHARP_NOTES.map((note, index) => [note, index])),
+  ...Object.fromEntries(FLAT_NOTES.map((note, index) => [note, index])),
+  'B#': 0,
+  'E#': 5,
+  Cb: 11,
+  Fb: 4
+};
+
+// Keys written with flats, by the index of their root; the rest use sharps
+const FLAT_MAJOR_KEYS = new Set([1, 3, 5, 6, 8, 10]); // Db Eb F Gb Ab Bb
+const FLAT_MINOR_KEYS = new Set([0, 2, 3, 5, 7, 10]); // Cm Dm Ebm Fm Gm Bbm
+
+// Root, quality and optional bass note, e.g. "F#", "m7" and "C#" in "F#m7/C#"
+const CHORD_PARTS = /^([A-G](?:#|b)?)(.*?)(?:\/([A-G](?:#|b)?))?$/;
+
+export interface SongKey {
+  root: number;
+  minor: boolean;
+}
+
+function mod12(value: number): number {
+  return ((value % 12) + 12) % 12;
+}
+
+// The key a chord name such as "F#m7" or a key such as "Bb" implies
+function parseKey(name: string): SongKey | null {
+  const parts = CHORD_PARTS.exec(name.trim());
+  if (!parts) return null;
+  return {
+    root: NOTE_INDEX[parts[1]],
+    minor: /^m(?!aj)/.test(parts[2])
+  };
+}
+
+// The key a song is written in: its stated key when it has one, otherwise
+// taken from its first chord, which needn't be the key chord
+export function getSongKey(text: string, statedKey?: string | null): SongKey | null {
+  const stated = statedKey ? parseKey(statedKey) : null;
+  if (stated) return stated;
+  const match = new RegExp(INLINE_CHORD_PATTERN.source).exec(text);
+  return match && parseKey(match[1]);
+}
+
+export function usesFlats(key: SongKey): boolean {
+  return (key.minor ? FLAT_MINOR_KEYS : FLAT_MAJOR_KEYS).has(key.root);
+}
+
+export function transposeKey(key: SongKey, semitones: number): SongKey {
+  return { root: mod12(key.root + semitones), minor: key.minor };
+}
+
+export function formatKey(key: SongKey): string {
+  const notes = usesFlats(key) ? FLAT_NOTES : SHARP_NOTES;
+  return `${notes[key.root]}${key.minor ? 'm' : ''}`;
+}
+
+function transposeNote(note: string, semitones: number, flats: boolean): string {
+  return (flats ? FLAT_NOTES : SHARP_NOTES)[mod12(NOTE_INDEX[note] + semitones)];
+}
+
+// Moves the root and any bass note, keeping the rest of the chord as written
+export function transposeChord(chord: string, semitones: number, flats: boolean): string {
+  const parts = CHORD_PARTS.exec(chord);
+  if (!parts) return chord;
+  const [, root, quality, bass] = parts;
+  return `${transposeNote(root, semitones, flats)}${quality}${bass ? `/${transposeNote(bass, semitones, flats)}` : ''}`;
+}
+
+// Unshifted chords are left as the song's author spelt them
+export function transposeChords(text: string, semitones: number, flats: boolean): string {
+  if (!mod12(semitones)) return text;
+  return text.replace(INLINE_CHORD_PATTERN, (_, chord: string) => `[${transposeChord(chord, semitones, flats)}]`);
+}
+
+// How far the written chords move for a song transposed by `transpose`
+// semitones and played with a capo on fret `capo`: the musicians read the
+// shapes they play, which sound `capo` semitones higher
+export function getChordShift(transpose: number, capo: number): number {
+  return mod12(transpose - capo);
+}
+
+// A line of ChordPro split into the lyrics each chord sits above. The first
+// piece has no chord when the line doesn't start with one.
+export function splitChordLine(line: string): Array<{ chord: string | null; lyric: string }> {
+  const pieces: Array<{ chord: string | null; lyric: string }> = [];
+  const pattern = new RegExp(INLINE_CHORD_PATTERN.source, 'g');
+  let last = 0;
+  let chord: string | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(line)) !== null) {
+    if (match.index > last || chord) {
+      pieces.push({ chord, lyric: line.slice(last, match.index) });
+    }
+    chord = match[1];
+    last = match.index + match[0].length;
+  }
+  pieces.push({ chord, lyric: line.slice(last) });
+  return pieces.filter(piece => piece.chord || piece.lyric);
+}
@@ -0,0 +1,162 @@
+import type { SegmentType } from '../types';
+
+// Keyboard shortcuts for the control panel. Bindings are stored per browser
+// so each operator's machine can be set up the way they like.
+
+export type KeyAction =
+  | 'next'
+  | 'previous'
+  | 'nextVerse'
+  | 'nextChorus'
+  | 'nextBridge'
+  | 'nextIntro'
+  | 'nextPreChorus'
+  | 'nextRefrain'
+  | 'nextInterlude'
+  | 'nextVamp'
+  | 'nextTag'
+  | 'nextOutro'
+  | 'nextEnding'
+  | 'black'
+  | 'clear'
+  | 'logo'
+  | 'fadeBlack'
+  | 'fadeLogo'
+  | 'languages'
+  | 'help';
+
+export type KeyBindings = Record<KeyAction, string[]>;
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  next: 'Next slide or line',
+  previous: 'Previous slide or line',
+  nextVerse: 'Next verse',
+  nextChorus: 'Next chorus',
+  nextBridge: 'Next bridge',
+  nextIntro: 'Next intro',
+  nextPreChorus: 'Next pre-chorus',
+  nextRefrain: 'Next refrain',
+  nextInterlude: 'Next interlude',
+  nextVamp: 'Next vamp',
+  nextTag: 'Next tag',
+  nextOutro: 'Next outro',
+  nextEnding: 'Next ending',
+  black: 'Black screen',
+  clear: 'Clear text',
+  logo: 'Show logo',
+  fadeBlack: 'Fade to black',
+  fadeLogo: 'Fade to logo',
+  languages: 'Switch languages shown',
+  help: 'Show this help'
+};
+
+// Jumps to the next segment of a type, for each action that does
+export const SEGMENT_KEY_ACTIONS: Partial<Record<KeyAction, SegmentType>> = {
+  nextVerse: 'verse',
+  nextChorus: 'chorus',
+  nextBridge: 'bridge',
+  nextIntro: 'intro',
+  nextPreChorus: 'pre-chorus',
+  nextRefrain: 'refrain',
+  nextInterlude: 'interlude',
+  nextVamp: 'vamp',
+  nextTag: 'tag',
+  nextOutro: 'outro',
+  nextEnding: 'ending'
+};
+
+// Segment jumps use the type's arrangement code where it's free. B blacks
+// the screen, as in PowerPoint, so the bridge jump moves to Shift+B.
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  next: ['ArrowRight', 'ArrowDown', 'Space', 'PageDown'],
+  previous: ['ArrowLeft', 'ArrowUp', 'PageUp'],
+  nextVerse: ['V'],
+  nextChorus: ['C'],
+  nextBridge: ['Shift+B'],
+  nextIntro: ['I'],
+  nextPreChorus: ['P'],
+  nextRefrain: ['R'],
+  nextInterlude: ['Shift+I'],
+  nextVamp: ['Shift+V'],
+  nextTag: ['T'],
+  nextOutro: ['O'],
+  nextEnding: ['E'],
+  black: ['B'],
+  clear: ['.'],
+  logo: ['W'],
+  fadeBlack: ['F'],
+  fadeLogo: ['Shift+F'],
+  languages: ['L'],
+  help: ['?']
+};
+
+const STORAGE_KEY = 'keyBindings';
+
+export function loadKeyBindings(): KeyBindings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    // Merge so actions added later get their defaults
+    return { ...DEFAULT_KEY_BINDINGS, ...(stored ?? {}) };
+  } catch {
+    return DEFAULT_KEY_BINDINGS;
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
+
+export function resetKeyBindings(): KeyBindings {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_KEY_BINDINGS;
+}
+
+// Gives the key a stable name, e.g. "Space", "V", "Shift+B" or "Ctrl+ArrowRight".
+// Shift is only named for letters; for symbols it's already part of the key.
+export function keyFromEvent(event: KeyboardEvent): string | null {
+  const { key } = event;
+  if (['Shift', 'Control', 'Alt', 'Meta'].includes(key)) return null;
+
+  let name = key === ' ' ? 'Space' : key;
+  const isLetter = /^[a-z]$/i.test(key);
+  if (isLetter) name = key.toUpperCase();
+
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.metaKey && 'Meta',
+    event.shiftKey && isLetter && 'Shift'
+  ].filter(Boolean);
+
+  return [...modifiers, name].join('+');
+}
+
+export function findKeyAction(bindings: KeyBindings, key: string): KeyAction | null {
+  const entry = Object.entries(bindings).find(([, keys]) => keys.includes(key));
+  return entry ? (entry[0] as KeyAction) : null;
+}
+
+// Assigns a key to an action, taking it away from any other action using it
+export function bindKey(bindings: KeyBindings, action: KeyAction, key: string): KeyBindings {
+  const updated = Object.fromEntries(
+    Object.entries(bindings).map(([other, keys]) => [other, keys.filter(k => k !== key)])
+  ) as KeyBindings;
+  updated[action] = [key];
+  return updated;
+}
+
+export function formatKey(key: string): string {
+  return key
+    .replace('ArrowRight', '→')
+    .replace('ArrowLeft', '←')
+    .replace('ArrowUp', '↑')
+    .replace('ArrowDown', '↓')
+    .replace('PageDown', 'Page Down')
+    .replace('PageUp', 'Page Up');
+}
+
+// Number keys jump straight to a segment: 1-9, and 0 for the tenth
+export function segmentIndexFromKey(key: string): number | null {
+  if (!/^\d$/.test(key)) return null;
+  return key === '0' ? 9 : Number(key) - 1;
+}
@@ -0,0 +1,103 @@
+import type { LineCursor, LineDisplay, OutputRole, Slide } from '../types';
+
+const STORAGE_KEY = 'outputLineDisplays';
+
+// How many lines each step moves; 0 steps whole slides
+export const LINE_STEP_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'Whole slides' },
+  { value: 1, label: 'Line by line' },
+  { value: 2, label: 'Two lines' }
+];
+
+export const LINE_DISPLAY_LABELS: Record<LineDisplay, string> = {
+  slide: 'Whole slide',
+  lines: 'Current lines only',
+  highlight: 'Highlight current lines'
+};
+
+// The livestream wants just the lines being sung; the band wants to see
+// where they are in the verse
+export const DEFAULT_LINE_DISPLAYS: Record<OutputRole, LineDisplay> = {
+  main: 'slide',
+  stage: 'highlight',
+  'lower-third': 'lines'
+};
+
+export function loadLineDisplays(): Record<OutputRole, LineDisplay> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_LINE_DISPLAYS, ...(stored ?? {}) };
+  } catch {
+    return DEFAULT_LINE_DISPLAYS;
+  }
+}
+
+export function saveLineDisplays(displays: Record<OutputRole, LineDisplay>): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(displays));
+}
+
+function getSlideContent(slide: Slide | null): string | null {
+  switch (slide?.type) {
+    case 'song':
+      return slide.segment.content;
+    case 'text':
+      return slide.content;
+    default:
+      return null;
+  }
+}
+
+// The lines the cursor steps through. Only lyrics and custom slides are
+// stepped; other slides move as a whole.
+export function getSlideLines(slide: Slide | null): string[] {
+  return (getSlideContent(slide) ?? '').split('\n').filter(line => line.trim());
+}
+
+export function getLineCursor(slide: Slide | null, step: number, start: number): LineCursor | null {
+  const lineCount = getSlideLines(slide).length;
+  if (!step || !lineCount) return null;
+  const clamped = Math.min(Math.max(start, 0), lineCount - 1);
+  return { start: clamped, count: Math.min(step, lineCount - clamped) };
+}
+
+// Where stepping backwards into a slide lands
+export function lastLineStart(slide: Slide | null, step: number): number {
+  const lineCount = getSlideLines(slide).length;
+  return step && lineCount ? Math.floor((lineCount - 1) / step) * step : 0;
+}
+
+function isCurrentLine(cursor: LineCursor, index: number): boolean {
+  return index >= cursor.start && index < cursor.start + cursor.count;
+}
+
+// Every line of the content, blank ones included, marking those under the cursor
+export function markCurrentLines(content: string, cursor: LineCursor): Array<{ text: string; current: boolean }> {
+  let index = 0;
+  return content.split('\n').map(text => {
+    if (!text.trim()) return { text, current: false };
+    return { text, current: isCurrentLine(cursor, index++) };
+  });
+}
+
+// The slide cut down to the lines under the cursor, chords and translation
+// included
+export function showCurrentLines(slide: Slide, cursor: LineCursor): Slide {
+  const content = getSlideContent(slide);
+  if (content === null) return slide;
+
+  const current = markCurrentLines(content, cursor).map(line => line.current);
+  const pick = (text: string) => text.split('\n').filter((_, index) => current[index]).join('\n');
+  switch (slide.type) {
+    case 'song':
+      return {
+        ...slide,
+        segment: { ...slide.segment, content: pick(slide.segment.content) },
+        translation: slide.translation && pick(slide.translation),
+        chords: slide.chords && pick(slide.chords)
+      };
+    case 'text':
+      return { ...slide, content: pick(slide.content) };
+    default:
+      return slide;
+  }
+}
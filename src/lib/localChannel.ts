@@ -0,0 +1,246 @@
+import type { ConnectionHandler, PresentationTransport, UpdateHandler } from './transport';
+import type { ConnectedOutput, OutputRole } from '../types';
+
+const CHANNEL_NAME = 'worship-present';
+const HEARTBEAT_INTERVAL = 5000;
+// A control panel that reloads is back well within this, so its displays
+// don't flash a connection error
+const PEER_TIMEOUT = 15000;
+
+type Update = Record<string, unknown>;
+
+type ChannelMessage =
+  | { type: 'update'; from: string; data: Update }
+  // Sent by displays on registering (joining) and as a heartbeat
+  | { type: 'display'; from: string; role: OutputRole; joining?: boolean }
+  | { type: 'control'; from: string; joining?: boolean }
+  | { type: 'leave'; from: string }
+  // The live state so far, sent by a control panel to a display that has
+  // just joined
+  | { type: 'state'; from: string; to: string; data: Update };
+
+// Connects tabs in the same browser without the presentation server, so a
+// control panel can drive any number of display tabs on the machine it runs
+// on. There's no server to keep the live state, so the control panel shares
+// what it has shown with displays that join later. Displays don't, as one
+// left over from earlier could hold an older slide than the control panel's.
+class LocalChannelService implements PresentationTransport {
+  private channel: BroadcastChannel | null = null;
+  private readonly id = crypto.randomUUID();
+  private registration: { kind: 'display'; role: OutputRole } | { kind: 'control' } | null = null;
+  private heartbeat: number | null = null;
+  private state: Update = {};
+  // Keys a display already has from live updates, which a control panel's
+  // state reply mustn't overwrite with something older
+  private receivedKeys = new Set<string>();
+  private displays = new Map<string, { role: OutputRole; lastSeen: number }>();
+  private controls = new Map<string, number>();
+  private updateHandlers: Set<UpdateHandler> = new Set();
+  private disconnectHandlers: Set<ConnectionHandler> = new Set();
+  private reconnectHandlers: Set<ConnectionHandler> = new Set();
+  private outputsHandlers: Set<(outputs: ConnectedOutput[]) => void> = new Set();
+
+  public isAvailable(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  public async connect(): Promise<void> {
+    if (this.channel) return;
+    if (!this.isAvailable()) {
+      throw new Error('This browser cannot connect windows directly');
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleMessage(event.data);
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  public disconnect(): void {
+    this.handlePageHide();
+    window.removeEventListener('pagehide', this.handlePageHide);
+    if (this.heartbeat !== null) {
+      window.clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.registration = null;
+    this.state = {};
+    this.receivedKeys.clear();
+    this.displays.clear();
+    this.controls.clear();
+  }
+
+  public async registerPresentation(role: OutputRole = 'main'): Promise<void> {
+    await this.connect();
+    this.registration = { kind: 'display', role };
+    this.post({ type: 'display', from: this.id, role, joining: true });
+    this.startHeartbeat();
+  }
+
+  public async registerControl(): Promise<void> {
+    await this.connect();
+    this.registration = { kind: 'control' };
+    this.post({ type: 'control', from: this.id, joining: true });
+    this.startHeartbeat();
+    this.emitOutputs();
+  }
+
+  public async sendUpdate(data: Update): Promise<void> {
+    await this.connect();
+    this.remember(data);
+    this.post({ type: 'update', from: this.id, data });
+  }
+
+  public onUpdate(handler: UpdateHandler): () => void {
+    this.updateHandlers.add(handler);
+    return () => this.updateHandlers.delete(handler);
+  }
+
+  public onDisconnect(handler: ConnectionHandler): () => void {
+    this.disconnectHandlers.add(handler);
+    return () => this.disconnectHandlers.delete(handler);
+  }
+
+  public onReconnect(handler: ConnectionHandler): () => void {
+    this.reconnectHandlers.add(handler);
+    return () => this.reconnectHandlers.delete(handler);
+  }
+
+  public onOutputs(handler: (outputs: ConnectedOutput[]) => void): () => void {
+    this.outputsHandlers.add(handler);
+    return () => this.outputsHandlers.delete(handler);
+  }
+
+  // A display is connected while a control panel can reach it; anything else
+  // just needs the channel open
+  public isConnected(): boolean {
+    if (!this.channel) return false;
+    return this.registration?.kind !== 'display' || this.controls.size > 0;
+  }
+
+  public getId(): string {
+    return this.id;
+  }
+
+  // Everything shown so far, for catching up the server after an outage
+  public getState(): Update {
+    return { ...this.state };
+  }
+
+  private post(message: ChannelMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  // fade and updateId only describe a single change
+  private remember(data: Update): void {
+    const changes = { ...data };
+    delete changes.fade;
+    delete changes.updateId;
+    Object.assign(this.state, changes);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat !== null) return;
+    this.heartbeat = window.setInterval(() => {
+      if (this.registration?.kind === 'display') {
+        this.post({ type: 'display', from: this.id, role: this.registration.role });
+      } else if (this.registration?.kind === 'control') {
+        this.post({ type: 'control', from: this.id });
+      }
+      this.removeStalePeers();
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private removeStalePeers(): void {
+    const now = Date.now();
+    const wasConnected = this.isConnected();
+
+    this.controls.forEach((lastSeen, id) => {
+      if (now - lastSeen > PEER_TIMEOUT) this.controls.delete(id);
+    });
+    const displayCount = this.displays.size;
+    this.displays.forEach((display, id) => {
+      if (now - display.lastSeen > PEER_TIMEOUT) this.displays.delete(id);
+    });
+
+    if (this.displays.size !== displayCount) this.emitOutputs();
+    if (wasConnected && !this.isConnected()) {
+      this.disconnectHandlers.forEach(handler => handler());
+    }
+  }
+
+  // Displays say goodbye so the output list updates at once. Control panels
+  // don't, as a reload would otherwise show an error on every display.
+  private handlePageHide = () => {
+    if (this.registration?.kind === 'display') {
+      this.post({ type: 'leave', from: this.id });
+    }
+  };
+
+  private handleMessage(message: ChannelMessage): void {
+    switch (message.type) {
+      case 'update':
+        this.remember(message.data);
+        Object.keys(message.data).forEach(key => this.receivedKeys.add(key));
+        this.updateHandlers.forEach(handler => handler(message.data));
+        break;
+
+      case 'display': {
+        const isNew = !this.displays.has(message.from);
+        this.displays.set(message.from, { role: message.role, lastSeen: Date.now() });
+        if (this.registration?.kind === 'control') {
+          if (isNew) this.emitOutputs();
+          // Let a new display know straight away that it's being driven,
+          // and what it should be showing
+          if (message.joining) {
+            this.post({ type: 'control', from: this.id });
+            if (Object.keys(this.state).length) {
+              this.post({ type: 'state', from: this.id, to: message.from, data: this.getState() });
+            }
+          }
+        }
+        break;
+      }
+
+      case 'control': {
+        const wasConnected = this.isConnected();
+        this.controls.set(message.from, Date.now());
+        if (!wasConnected && this.isConnected()) {
+          this.reconnectHandlers.forEach(handler => handler());
+        }
+        // Introduce ourselves so a reloaded control panel lists us at once
+        if (message.joining && this.registration?.kind === 'display') {
+          this.post({ type: 'display', from: this.id, role: this.registration.role });
+        }
+        break;
+      }
+
+      case 'leave':
+        if (this.displays.delete(message.from) && this.registration?.kind === 'control') {
+          this.emitOutputs();
+        }
+        break;
+
+      case 'state': {
+        if (message.to !== this.id) break;
+        const missing = Object.fromEntries(
+          Object.entries(message.data).filter(([key]) => !this.receivedKeys.has(key))
+        );
+        if (!Object.keys(missing).length) break;
+        this.remember(missing);
+        Object.keys(missing).forEach(key => this.receivedKeys.add(key));
+        this.updateHandlers.forEach(handler => handler(missing));
+        break;
+      }
+    }
+  }
+
+  private emitOutputs(): void {
+    if (this.registration?.kind !== 'control') return;
+    const outputs = [...this.displays.entries()].map(([id, display]) => ({ id, role: display.role }));
+    this.outputsHandlers.forEach(handler => handler(outputs));
+  }
+}
+
+export const localChannelService = new LocalChannelService();
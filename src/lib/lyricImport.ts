@@ -0,0 +1,298 @@
+import { createSegmentId } from './songs';
+import { SEGMENT_TYPE_LABELS } from './segmentTypes';
+import { isChordLine, mergeChordLine, stripChords } from './chords';
+import type { SegmentType, SongDraft } from '../types';
+
+export type LyricFormat = 'plain' | 'chordpro';
+
+export interface ImportedSegment {
+  type: SegmentType;
+  label: string;
+  // The number written in the section header, e.g. "2" or "1b"
+  number: string | null;
+  content: string;
+}
+
+export interface ImportedSong {
+  format: LyricFormat;
+  title: string;
+  author: string;
+  segments: ImportedSegment[];
+  warnings: string[];
+}
+
+export interface LyricImportOptions {
+  keepChords: boolean;
+}
+
+// Section names found in lyric sheets, mapped to the segment types we store.
+// Names without a dedicated type fall back to a verse and produce a warning.
+const SECTION_ALIASES: Record<string, SegmentType> = {
+  intro: 'intro',
+  verse: 'verse',
+  'pre-chorus': 'pre-chorus',
+  prechorus: 'pre-chorus',
+  'pre chorus': 'pre-chorus',
+  chorus: 'chorus',
+  refrain: 'refrain',
+  bridge: 'bridge',
+  interlude: 'interlude',
+  instrumental: 'interlude',
+  vamp: 'vamp',
+  tag: 'tag',
+  outro: 'outro',
+  ending: 'ending'
+};
+
+const UNSUPPORTED_SECTIONS = ['breakdown', 'spoken'];
+
+const SECTION_HEADER_PATTERN = new RegExp(
+  `^[\\[(]?\\s*(${[...Object.keys(SECTION_ALIASES), ...UNSUPPORTED_SECTIONS].join('|')})\\s*(\\d+[a-z]?)?\\s*[\\])]?\\s*:?\\s*$`,
+  'i'
+);
+
+const METADATA_LINE_PATTERN = /^(title|author|artist|words and music by|by(?=\s*:))\s*:?\s+(.+)$/i;
+
+// Lyrics can start with "By", so a "By ..." line without a colon is only
+// taken as the author straight after the title
+const BYLINE_PATTERN = /^by\s+(.+)$/i;
+
+const CHORDPRO_DIRECTIVE_PATTERN = /^\{\s*([a-z_]+)\s*(?::\s*(.*?))?\s*\}$/i;
+
+interface SectionHeader {
+  type: SegmentType;
+  label: string;
+  number: string | null;
+  unsupported: boolean;
+}
+
+function parseSectionHeader(line: string): SectionHeader | null {
+  const match = line.trim().match(SECTION_HEADER_PATTERN);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const number = match[2] ? ` ${match[2]}` : '';
+  const type = SECTION_ALIASES[name] ?? 'verse';
+  const displayName = name.charAt(0).toUpperCase() + name.slice(1);
+
+  return {
+    type,
+    label: `${displayName}${number}`,
+    number: match[2]?.toLowerCase() ?? null,
+    unsupported: !(name in SECTION_ALIASES)
+  };
+}
+
+export function detectLyricFormat(text: string): LyricFormat {
+  return /^\s*\{\s*(title|t|artist|subtitle|st|start_of_\w+|so[cvb])\s*[:}]/im.test(text)
+    ? 'chordpro'
+    : 'plain';
+}
+
+export function parseLyrics(text: string, options: LyricImportOptions): ImportedSong {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  return detectLyricFormat(normalized) === 'chordpro'
+    ? parseChordPro(normalized, options)
+    : parsePlainText(normalized, options);
+}
+
+class SegmentCollector {
+  segments: ImportedSegment[] = [];
+  warnings: string[] = [];
+  private lines: string[] = [];
+  private header: SectionHeader | null = null;
+  private typeCounts: Partial<Record<SegmentType, number>> = {};
+
+  start(header: SectionHeader | null) {
+    this.flush();
+    this.header = header;
+    if (header?.unsupported) {
+      this.warnings.push(`"${header.label}" was imported as a verse.`);
+    }
+  }
+
+  push(line: string) {
+    this.lines.push(line);
+  }
+
+  flush() {
+    const content = this.lines.join('\n').trim();
+    this.lines = [];
+    if (!content) return;
+
+    const type = this.header?.type ?? 'verse';
+    const count = (this.typeCounts[type] ?? 0) + 1;
+    this.typeCounts[type] = count;
+
+    this.segments.push({
+      type,
+      label: this.header?.label || `${SEGMENT_TYPE_LABELS[type]} ${count}`,
+      number: this.header?.number ?? null,
+      content
+    });
+    this.header = null;
+  }
+}
+
+function applyChordOption(line: string, keepChords: boolean): string {
+  return keepChords ? line : stripChords(line);
+}
+
+function parsePlainText(text: string, { keepChords }: LyricImportOptions): ImportedSong {
+  const lines = text.split('\n').map(line => line.trimEnd());
+  const collector = new SegmentCollector();
+  let title = '';
+  let author = '';
+  let index = 0;
+  let titleIndex = -1;
+
+  // Leading "Title:" / "Author:" lines, or a lone first line followed by a
+  // blank line or an author line, are treated as song metadata.
+  while (index < lines.length) {
+    const line = lines[index].trim();
+    const meta = line.match(METADATA_LINE_PATTERN);
+    const byline = index === titleIndex + 1 && !author ? line.match(BYLINE_PATTERN) : null;
+    if (!line) {
+      index++;
+    } else if (meta) {
+      if (meta[1].toLowerCase() === 'title') {
+        title = meta[2].trim();
+        titleIndex = index;
+      } else {
+        author = meta[2].trim();
+      }
+      index++;
+    } else if (title && byline) {
+      author = byline[1].trim();
+      index++;
+    } else if (
+      !title &&
+      !parseSectionHeader(line) &&
+      !isChordLine(line) &&
+      index + 1 < lines.length &&
+      (!lines[index + 1].trim() ||
+        METADATA_LINE_PATTERN.test(lines[index + 1].trim()) ||
+        BYLINE_PATTERN.test(lines[index + 1].trim()))
+    ) {
+      title = line;
+      titleIndex = index;
+      index++;
+    } else {
+      break;
+    }
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const header = parseSectionHeader(line);
+
+    if (header) {
+      collector.start(header);
+    } else if (!line.trim()) {
+      collector.flush();
+    } else if (isChordLine(line)) {
+      if (!keepChords) continue;
+      const next = lines[index + 1];
+      if (next?.trim() && !isChordLine(next) && !parseSectionHeader(next)) {
+        collector.push(mergeChordLine(line, next));
+        index++;
+      } else {
+        // Intro and instrumental chords have no lyrics under them
+        collector.push(mergeChordLine(line, ''));
+      }
+    } else {
+      collector.push(applyChordOption(line, keepChords));
+    }
+  }
+  collector.flush();
+
+  return {
+    format: 'plain',
+    title,
+    author,
+    segments: collector.segments,
+    warnings: collector.warnings
+  };
+}
+
+const CHORDPRO_SECTION_DIRECTIVES: Record<string, SegmentType> = {
+  start_of_chorus: 'chorus',
+  soc: 'chorus',
+  start_of_verse: 'verse',
+  sov: 'verse',
+  start_of_bridge: 'bridge',
+  sob: 'bridge',
+  start_of_intro: 'intro',
+  start_of_outro: 'outro',
+  start_of_tag: 'tag'
+};
+
+function parseChordPro(text: string, { keepChords }: LyricImportOptions): ImportedSong {
+  const collector = new SegmentCollector();
+  let title = '';
+  let author = '';
+  let inSection = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trimEnd();
+    if (line.trim().startsWith('#')) continue;
+
+    const directive = line.trim().match(CHORDPRO_DIRECTIVE_PATTERN);
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = directive[2]?.trim() ?? '';
+
+      if (name === 'title' || name === 't') {
+        title = value;
+      } else if (name === 'artist' || ((name === 'subtitle' || name === 'st' || name === 'composer') && !author)) {
+        author = value;
+      } else if (name in CHORDPRO_SECTION_DIRECTIVES) {
+        const type = CHORDPRO_SECTION_DIRECTIVES[name];
+        collector.start(parseSectionHeader(value) ?? { type, label: value, number: null, unsupported: false });
+        inSection = true;
+      } else if (name.startsWith('end_of_') || name === 'eoc' || name === 'eov' || name === 'eob') {
+        collector.flush();
+        inSection = false;
+      } else if (name === 'comment' || name === 'c' || name === 'ci') {
+        const header = parseSectionHeader(value);
+        if (header) collector.start(header);
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      if (!inSection) collector.flush();
+      continue;
+    }
+
+    const header = parseSectionHeader(line);
+    if (header) {
+      collector.start(header);
+    } else {
+      collector.push(applyChordOption(line, keepChords));
+    }
+  }
+  collector.flush();
+
+  return {
+    format: 'chordpro',
+    title,
+    author,
+    segments: collector.segments,
+    warnings: collector.warnings
+  };
+}
+
+export function importedSongToDraft(song: ImportedSong): SongDraft {
+  return {
+    title: song.title,
+    author: song.author,
+    segments: song.segments.map((segment, index) => ({
+      id: createSegmentId(),
+      type: segment.type,
+      label: segment.number,
+      order_num: index + 1,
+      content: segment.content
+    }))
+  };
+}
@@ -0,0 +1,175 @@
+// A local copy of what the app needs during a service, kept in IndexedDB so
+// the control panel keeps working when the building's Wi-Fi drops. Reads go
+// to Supabase first and fall back to the copy; saves that can't reach
+// Supabase wait in an outbox until the connection returns.
+
+const DATABASE_NAME = 'worship-present-offline';
+const DATABASE_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+// Song usage records are new rows only, so they never conflict
+export type PendingEditKind = 'song' | 'service' | 'usage';
+
+export interface PendingEdit {
+  id?: number;
+  kind: PendingEditKind;
+  recordId: string;
+  // Shown when reporting the edit, e.g. the song title
+  label: string;
+  // The record's updated_at when it was edited, or null for a new record.
+  // If the server's copy has moved on since, the edit is a conflict.
+  baseUpdatedAt: string | null;
+  payload: unknown;
+  queuedAt: string;
+  // Set when the edit can't be synced without someone deciding what to do:
+  // the record changed (or was deleted) on the server, or the save failed
+  problem?:
+    | { type: 'conflict'; serverUpdatedAt: string | null }
+    | { type: 'error'; message: string };
+}
+
+export interface OfflineStatus {
+  online: boolean;
+  syncing: boolean;
+  // Edits waiting to be synced
+  pending: number;
+  // Edits held back until someone resolves them
+  problems: PendingEdit[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+let status: OfflineStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  problems: []
+};
+const statusListeners = new Set<(status: OfflineStatus) => void>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than keep a failed open
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Supabase reports a dropped connection as a failed fetch rather than with
+// an error code
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message ?? '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+export async function readCache<T>(key: string): Promise<T | undefined> {
+  return run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  await run(CACHE_STORE, 'readwrite', store => store.put(value, key));
+}
+
+// Loads from the server and keeps a copy, or returns the copy when the
+// server can't be reached. Other errors are passed on as they are.
+export async function withOfflineCache<T>(key: string, load: () => Promise<T>): Promise<T> {
+  try {
+    const value = await load();
+    writeCache(key, value).catch(error => console.error('Error caching data:', error));
+    setOnline(true);
+    return value;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    setOnline(false);
+    const cached = await readCache<T>(key).catch(() => undefined);
+    if (cached === undefined) throw error;
+    return cached;
+  }
+}
+
+// Only the latest edit to a record is kept; it still counts as based on the
+// version the first offline edit started from
+export async function queueEdit(edit: Omit<PendingEdit, 'id' | 'queuedAt'>): Promise<void> {
+  const existing = (await listPendingEdits()).find(
+    pending => pending.kind === edit.kind && pending.recordId === edit.recordId
+  );
+  const queued: PendingEdit = {
+    ...edit,
+    ...(existing && { id: existing.id, baseUpdatedAt: existing.baseUpdatedAt }),
+    queuedAt: new Date().toISOString()
+  };
+  await run(OUTBOX_STORE, 'readwrite', store => store.put(queued));
+  await refreshOfflineStatus();
+}
+
+export async function listPendingEdits(): Promise<PendingEdit[]> {
+  return run<PendingEdit[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+}
+
+export async function updatePendingEdit(edit: PendingEdit): Promise<void> {
+  await run(OUTBOX_STORE, 'readwrite', store => store.put(edit));
+}
+
+export async function removePendingEdit(id: number): Promise<void> {
+  await run(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+}
+
+// Called on sign-out so the next user of the machine starts clean
+export async function clearOfflineData(): Promise<void> {
+  await run(CACHE_STORE, 'readwrite', store => store.clear());
+  await run(OUTBOX_STORE, 'readwrite', store => store.clear());
+  await refreshOfflineStatus();
+}
+
+export function getOfflineStatus(): OfflineStatus {
+  return status;
+}
+
+export function onOfflineStatusChange(listener: (status: OfflineStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+export function updateOfflineStatus(changes: Partial<OfflineStatus>): void {
+  status = { ...status, ...changes };
+  statusListeners.forEach(listener => listener(status));
+}
+
+export function setOnline(online: boolean): void {
+  if (status.online !== online) updateOfflineStatus({ online });
+}
+
+export async function refreshOfflineStatus(): Promise<void> {
+  const edits = await listPendingEdits();
+  updateOfflineStatus({
+    pending: edits.filter(edit => !edit.problem).length,
+    problems: edits.filter(edit => edit.problem)
+  });
+}
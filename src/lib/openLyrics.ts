@@ -0,0 +1,237 @@
+import { createSegmentId } from './songs';
+import { getSongSequence } from './arrangements';
+import { stripChords } from './chords';
+import { MAX_TEMPO, MIN_TEMPO, normalizeTags } from './songMetadata';
+import { cleanTranslations } from './translations';
+import type { SegmentType, Song, SongDraft } from '../types';
+
+// OpenLyrics 0.9 (https://docs.openlyrics.org). Each file holds one song.
+
+const OPENLYRICS_NAMESPACE = 'http://openlyrics.info/namespace/2009/song';
+
+// The schema's own prefixes where it has one; other types use their name.
+// The schema's "o" is "other", so it imports as a verse.
+const VERSE_NAME_PREFIXES: Record<SegmentType, string> = {
+  intro: 'i',
+  verse: 'v',
+  'pre-chorus': 'p',
+  chorus: 'c',
+  refrain: 'refrain',
+  bridge: 'b',
+  interlude: 'interlude',
+  vamp: 'vamp',
+  tag: 'tag',
+  outro: 'outro',
+  ending: 'e'
+};
+
+const PREFIX_TYPES: Record<string, SegmentType> = Object.fromEntries(
+  Object.entries(VERSE_NAME_PREFIXES).map(([type, prefix]) => [prefix, type as SegmentType])
+);
+
+// e.g. "v2" or "c1b": letters for the type, then the segment's number
+const VERSE_NAME_PATTERN = /^([a-z]+?)(\d\w*)?$/i;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Inline ChordPro chords ("[G]Amazing") become <chord name="G"/> elements.
+function contentToLines(content: string): string {
+  return content
+    .split('\n')
+    .map(line => escapeXml(line).replace(/\[([^\]\s]+)\]/g, (_, chord: string) => `<chord name="${chord}"/>`))
+    .join('<br/>');
+}
+
+export function songToOpenLyrics(song: Song): string {
+  const segments = [...song.segments].sort((a, b) => a.order_num - b.order_num);
+  const counts: Partial<Record<SegmentType, number>> = {};
+  const used = new Set<string>();
+  const named = segments.map(segment => {
+    const count = (counts[segment.type] ?? 0) + 1;
+    counts[segment.type] = count;
+    // Names must be unique, which labels needn't be
+    const prefix = VERSE_NAME_PREFIXES[segment.type];
+    const label = segment.label?.trim().replace(/\s+/g, '');
+    const name = label && /^\d/.test(label) && !used.has(`${prefix}${label}`) ? `${prefix}${label}` : `${prefix}${count}`;
+    used.add(name);
+    return { name, segment };
+  });
+  const names = new Map(named.map(({ name, segment }) => [segment.id, name]));
+  const verseOrder = getSongSequence(song, null).map(segment => names.get(segment.id));
+
+  // Translations are further verses with the same name in another language
+  const verse = (name: string, lang: string | null | undefined, content: string) =>
+    `    <verse name="${name}"${lang ? ` lang="${escapeXml(lang)}"` : ''}>\n      <lines>${contentToLines(content)}</lines>\n    </verse>`;
+  const verses = named
+    .flatMap(({ name, segment }) => [
+      verse(name, song.language, segment.content),
+      ...Object.entries(cleanTranslations(segment.translations))
+        .filter(([language]) => language !== song.language)
+        .map(([language, text]) => verse(name, language, text))
+    ])
+    .join('\n');
+
+  // Optional properties, in the order the schema lists them
+  const details = [
+    song.copyright && `<copyright>${escapeXml(song.copyright)}</copyright>`,
+    song.ccli_number && `<ccliNo>${escapeXml(song.ccli_number)}</ccliNo>`,
+    song.tempo && `<tempo type="bpm">${song.tempo}</tempo>`,
+    song.original_key && `<key>${escapeXml(song.original_key)}</key>`,
+    song.publisher && `<publisher>${escapeXml(song.publisher)}</publisher>`
+  ].filter(Boolean);
+  const themes = (song.tags ?? []).map(tag => `<theme>${escapeXml(tag)}</theme>`);
+  const lang = song.language ? ` lang="${escapeXml(song.language)}"` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<song xmlns="${OPENLYRICS_NAMESPACE}" version="0.9" createdIn="Worship Present" modifiedIn="Worship Present" modifiedDate="${new Date(song.updated_at || Date.now()).toISOString()}">
+  <properties>
+    <titles>
+      <title${lang}>${escapeXml(song.title)}</title>
+    </titles>
+    <authors>
+      ${song.author ? `<author>${escapeXml(song.author)}</author>` : ''}
+    </authors>
+${details.map(detail => `    ${detail}\n`).join('')}    <verseOrder>${verseOrder.join(' ')}</verseOrder>
+${themes.length ? `    <themes>\n${themes.map(theme => `      ${theme}\n`).join('')}    </themes>\n` : ''}  </properties>
+  <lyrics>
+${verses}
+  </lyrics>
+</song>
+`;
+}
+
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// Details missing from the file are left undefined, so importing over an
+// existing song keeps what it had
+function property(doc: Document, localName: string): string | undefined {
+  return elements(doc, localName)[0]?.textContent?.trim() || undefined;
+}
+
+function linesToContent(lines: Element): string {
+  let text = '';
+  lines.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent ?? '').replace(/\s*\n\s*/g, ' ');
+    } else if (node instanceof Element) {
+      if (node.localName === 'br') text += '\n';
+      else if (node.localName === 'chord') text += `[${node.getAttribute('name') ?? ''}]`;
+      else if (node.localName !== 'comment') text += linesToContent(node);
+    }
+  });
+  return text;
+}
+
+// Only a two-letter language code is kept, e.g. "en" from "en-US"
+function languageCode(lang: string | null): string | undefined {
+  return /^([a-z]{2})\b/i.exec(lang ?? '')?.[1].toLowerCase();
+}
+
+function parseVerseName(name: string): { type: SegmentType; label: string | null } {
+  const match = VERSE_NAME_PATTERN.exec(name);
+  return {
+    type: (match && PREFIX_TYPES[match[1].toLowerCase()]) ?? PREFIX_TYPES[name.charAt(0).toLowerCase()] ?? 'verse',
+    label: match?.[2] ?? null
+  };
+}
+
+export function songFromOpenLyrics(xml: string): SongDraft {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'song') {
+    throw new Error('Not a valid OpenLyrics file');
+  }
+
+  const titleElement = elements(doc, 'title')[0];
+  const title = titleElement?.textContent?.trim() ?? '';
+  const language = languageCode(titleElement?.getAttribute('lang') ?? null);
+  const author = elements(doc, 'author')
+    .map(el => el.textContent?.trim())
+    .filter(Boolean)
+    .join(', ');
+
+  const allVerses = elements(doc, 'verse').map(verse => ({
+    name: verse.getAttribute('name') ?? '',
+    lang: languageCode(verse.getAttribute('lang')),
+    content: elements(verse, 'lines')
+      .map(lines => linesToContent(lines).split('\n').map(line => line.trim()).join('\n').trim())
+      .join('\n')
+  }));
+
+  // Of the verses sharing a name, the one in the song's language (or with
+  // none given, or else the first) is the segment; the rest translate it
+  const isOriginal = (verse: typeof allVerses[number]) => !verse.lang || verse.lang === language;
+  const verses = allVerses
+    .filter(verse => {
+      const named = allVerses.filter(other => other.name === verse.name);
+      return verse === (named.find(isOriginal) ?? named[0]);
+    })
+    .map(verse => ({
+      ...verse,
+      translations: cleanTranslations(Object.fromEntries(
+        allVerses
+          .filter(other => other.name === verse.name && other.lang && other.lang !== verse.lang)
+          .map(other => [other.lang!, stripChords(other.content)])
+      ))
+    }));
+
+  // Segments are stored once each, in first-use order; the full verse order,
+  // repeats included, becomes the song's default arrangement.
+  const verseOrder = elements(doc, 'verseOrder')[0]?.textContent?.trim().split(/\s+/).filter(Boolean) ?? [];
+  const ordered = verseOrder.length
+    ? [
+        ...verseOrder
+          .filter((name, index) => verseOrder.indexOf(name) === index)
+          .map(name => verses.find(verse => verse.name === name))
+          .filter((verse): verse is typeof verses[number] => !!verse),
+        ...verses.filter(verse => !verseOrder.includes(verse.name))
+      ]
+    : verses;
+
+  const segments = ordered
+    .filter(verse => verse.content)
+    .map((verse, index) => ({
+      id: createSegmentId(),
+      name: verse.name,
+      ...parseVerseName(verse.name),
+      order_num: index + 1,
+      content: verse.content,
+      translations: verse.translations
+    }));
+  const ids = new Map(segments.map(segment => [segment.name, segment.id]));
+  const sequence = verseOrder.map(name => ids.get(name)).filter((id): id is string => !!id);
+
+  const tempo = elements(doc, 'tempo').find(el => el.getAttribute('type') !== 'text');
+  const bpm = tempo ? Math.round(Number(tempo.textContent)) : NaN;
+  const themes = normalizeTags(elements(doc, 'theme').map(el => el.textContent ?? ''));
+
+  return {
+    title,
+    author,
+    ccli_number: property(doc, 'ccliNo'),
+    copyright: property(doc, 'copyright'),
+    publisher: property(doc, 'publisher'),
+    original_key: property(doc, 'key'),
+    tempo: bpm >= MIN_TEMPO && bpm <= MAX_TEMPO ? bpm : undefined,
+    language,
+    tags: themes.length ? themes : undefined,
+    segments: segments.map(({ id, type, label, order_num, content, translations }) => ({
+      id,
+      type,
+      label,
+      order_num,
+      content,
+      translations
+    })),
+    arrangements: sequence.length > 0 && sequence.length !== segments.length
+      ? [{ id: crypto.randomUUID(), name: 'Default', sequence, is_default: true }]
+      : undefined
+  };
+}
@@ -0,0 +1,310 @@
+import type { ScriptureVerse } from '../types';
+
+// Bible texts live in public/bibles as static JSON; see public/bibles/README.md
+// for the file format.
+
+export interface BibleInfo {
+  id: string;
+  name: string;
+  abbreviation: string;
+}
+
+export interface Bible extends BibleInfo {
+  // book name -> chapter number -> verse number -> text
+  books: Record<string, Record<string, Record<string, string>>>;
+}
+
+// A start and end position; a null verse means the start or end of the chapter
+export interface VerseRange {
+  startChapter: number;
+  startVerse: number | null;
+  endChapter: number;
+  endVerse: number | null;
+}
+
+export interface ScriptureReference {
+  book: string;
+  ranges: VerseRange[];
+}
+
+// Canonical book names followed by accepted abbreviations. Numbered books
+// also accept "1st", "I", "First" etc. (see normalizeBookName).
+const BOOKS: string[][] = [
+  ['Genesis', 'gen', 'ge', 'gn'],
+  ['Exodus', 'exod', 'exo', 'ex'],
+  ['Leviticus', 'lev', 'le', 'lv'],
+  ['Numbers', 'num', 'nu', 'nm', 'nb'],
+  ['Deuteronomy', 'deut', 'de', 'dt'],
+  ['Joshua', 'josh', 'jos', 'jsh'],
+  ['Judges', 'judg', 'jdg', 'jg', 'jdgs'],
+  ['Ruth', 'rth', 'ru'],
+  ['1 Samuel', '1sam', '1sa', '1sm'],
+  ['2 Samuel', '2sam', '2sa', '2sm'],
+  ['1 Kings', '1kgs', '1ki', '1kg'],
+  ['2 Kings', '2kgs', '2ki', '2kg'],
+  ['1 Chronicles', '1chr', '1ch', '1chron'],
+  ['2 Chronicles', '2chr', '2ch', '2chron'],
+  ['Ezra', 'ezr'],
+  ['Nehemiah', 'neh', 'ne'],
+  ['Esther', 'esth', 'est', 'es'],
+  ['Job', 'jb'],
+  ['Psalms', 'ps', 'psa', 'psalm', 'pss', 'psm'],
+  ['Proverbs', 'prov', 'pro', 'prv', 'pr'],
+  ['Ecclesiastes', 'eccl', 'ecc', 'ec', 'qoh'],
+  ['Song of Solomon', 'song', 'sos', 'songofsongs', 'canticles', 'cant'],
+  ['Isaiah', 'isa', 'is'],
+  ['Jeremiah', 'jer', 'je', 'jr'],
+  ['Lamentations', 'lam', 'la'],
+  ['Ezekiel', 'ezek', 'eze', 'ezk'],
+  ['Daniel', 'dan', 'da', 'dn'],
+  ['Hosea', 'hos', 'ho'],
+  ['Joel', 'jl'],
+  ['Amos', 'am'],
+  ['Obadiah', 'obad', 'ob'],
+  ['Jonah', 'jnh', 'jon'],
+  ['Micah', 'mic', 'mc'],
+  ['Nahum', 'nah', 'na'],
+  ['Habakkuk', 'hab', 'hb'],
+  ['Zephaniah', 'zeph', 'zep', 'zp'],
+  ['Haggai', 'hag', 'hg'],
+  ['Zechariah', 'zech', 'zec', 'zc'],
+  ['Malachi', 'mal', 'ml'],
+  ['Matthew', 'matt', 'mat', 'mt'],
+  ['Mark', 'mrk', 'mk', 'mr'],
+  ['Luke', 'luk', 'lk'],
+  ['John', 'jn', 'jhn', 'joh'],
+  ['Acts', 'act', 'ac'],
+  ['Romans', 'rom', 'ro', 'rm'],
+  ['1 Corinthians', '1cor', '1co'],
+  ['2 Corinthians', '2cor', '2co'],
+  ['Galatians', 'gal', 'ga'],
+  ['Ephesians', 'eph', 'ephes'],
+  ['Philippians', 'phil', 'php', 'pp'],
+  ['Colossians', 'col'],
+  ['1 Thessalonians', '1thess', '1thes', '1th'],
+  ['2 Thessalonians', '2thess', '2thes', '2th'],
+  ['1 Timothy', '1tim', '1ti', '1tm'],
+  ['2 Timothy', '2tim', '2ti', '2tm'],
+  ['Titus', 'tit', 'ti'],
+  ['Philemon', 'philem', 'phm', 'pm'],
+  ['Hebrews', 'heb'],
+  ['James', 'jas', 'jm'],
+  ['1 Peter', '1pet', '1pe', '1pt'],
+  ['2 Peter', '2pet', '2pe', '2pt'],
+  ['1 John', '1jn', '1jhn', '1jo', '1joh'],
+  ['2 John', '2jn', '2jhn', '2jo', '2joh'],
+  ['3 John', '3jn', '3jhn', '3jo', '3joh'],
+  ['Jude', 'jud', 'jde'],
+  ['Revelation', 'rev', 're', 'rv', 'revelations']
+];
+
+// In these a bare number is a verse: "Jude 3" is Jude 1:3
+const SINGLE_CHAPTER_BOOKS = new Set(['Obadiah', 'Philemon', '2 John', '3 John', 'Jude']);
+
+function normalizeBookName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\./g, ' ')
+    .trim()
+    .replace(/^(first|1st|i)\s+/, '1')
+    .replace(/^(second|2nd|ii)\s+/, '2')
+    .replace(/^(third|3rd|iii)\s+/, '3')
+    .replace(/\s+/g, '');
+}
+
+const BOOK_ALIASES = new Map<string, string>(
+  BOOKS.flatMap(([name, ...aliases]) => [normalizeBookName(name), ...aliases].map(alias => [alias, name]))
+);
+
+export function findBook(name: string): string | null {
+  const normalized = normalizeBookName(name);
+  if (!normalized) return null;
+
+  const exact = BOOK_ALIASES.get(normalized);
+  if (exact) return exact;
+
+  // Otherwise accept an unambiguous prefix, e.g. "Deuter" or "Habak"
+  if (normalized.replace(/^\d/, '').length < 3) return null;
+  const matches = BOOKS.map(([book]) => book).filter(book => normalizeBookName(book).startsWith(normalized));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+const REFERENCE_PATTERN = /^\s*((?:[1-3]|i{1,3}|first|second|third|1st|2nd|3rd)?\s*[a-z][a-z.\s]*?)\s*(\d.*)?$/i;
+
+function toNumber(text: string, reference: string): number {
+  const value = Number(text);
+  if (!text || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Could not read "${reference}"`);
+  }
+  return value;
+}
+
+// Parses references such as "John 3:16-18", "Ps 23", "Gen 1-2",
+// "1 Cor 13:4-7, 13", "Rom 8:28; 12:1-2" and "John 3:16-4:2". After a
+// chapter:verse, comma-separated numbers are further verses of that chapter;
+// a semicolon starts a new chapter.
+export function parseReference(text: string): ScriptureReference {
+  const match = REFERENCE_PATTERN.exec(text.replace(/[–—]/g, '-'));
+  if (!match) throw new Error(`Could not read "${text}"`);
+
+  const book = findBook(match[1]);
+  if (!book) throw new Error(`Unknown book "${match[1].trim()}"`);
+
+  const singleChapter = SINGLE_CHAPTER_BOOKS.has(book);
+  const rest = (match[2] ?? '').replace(/\s+/g, '');
+  if (!rest) {
+    return { book, ranges: [{ startChapter: 1, startVerse: null, endChapter: 1, endVerse: null }] };
+  }
+
+  const ranges: VerseRange[] = [];
+  for (const group of rest.split(';').filter(Boolean)) {
+    let chapter: number | null = singleChapter ? 1 : null;
+
+    for (const part of group.split(',').filter(Boolean)) {
+      const [from, to] = part.split('-');
+      if (part.split('-').length > 2) throw new Error(`Could not read "${part}"`);
+
+      // Start position: "C:V", or a bare number that is a verse once a
+      // chapter is known and a chapter otherwise
+      let startChapter: number;
+      let startVerse: number | null;
+      if (from.includes(':')) {
+        const [c, v] = from.split(':');
+        startChapter = toNumber(c, part);
+        startVerse = toNumber(v, part);
+        chapter = startChapter;
+      } else if (chapter !== null) {
+        startChapter = chapter;
+        startVerse = toNumber(from, part);
+      } else {
+        startChapter = toNumber(from, part);
+        startVerse = null;
+      }
+
+      let endChapter = startChapter;
+      let endVerse = startVerse;
+      if (to !== undefined) {
+        if (to.includes(':')) {
+          const [c, v] = to.split(':');
+          endChapter = toNumber(c, part);
+          endVerse = toNumber(v, part);
+          chapter = endChapter;
+        } else if (startVerse !== null) {
+          endVerse = toNumber(to, part);
+        } else {
+          endChapter = toNumber(to, part);
+          endVerse = null;
+        }
+      }
+
+      if (endChapter < startChapter || (endChapter === startChapter && startVerse !== null && endVerse !== null && endVerse < startVerse)) {
+        throw new Error(`"${part}" ends before it starts`);
+      }
+
+      ranges.push({ startChapter, startVerse, endChapter, endVerse });
+    }
+  }
+
+  return { book, ranges };
+}
+
+const bibleCache = new Map<string, Promise<Bible>>();
+
+export async function loadBibleIndex(): Promise<BibleInfo[]> {
+  const response = await fetch('/bibles/index.json');
+  if (!response.ok) throw new Error('Could not load the list of Bible translations');
+  return response.json();
+}
+
+export function loadBible(id: string): Promise<Bible> {
+  let bible = bibleCache.get(id);
+  if (!bible) {
+    bible = fetch(`/bibles/${encodeURIComponent(id)}.json`).then(response => {
+      if (!response.ok) throw new Error(`Could not load Bible translation "${id}"`);
+      return response.json();
+    });
+    bible.catch(() => bibleCache.delete(id));
+    bibleCache.set(id, bible);
+  }
+  return bible;
+}
+
+function chapterVerses(bible: Bible, book: string, chapter: number): ScriptureVerse[] {
+  const verses = bible.books[book]?.[chapter];
+  if (!verses) throw new Error(`${book} ${chapter} is not in ${bible.name}`);
+
+  return Object.entries(verses)
+    .map(([verse, text]) => ({ chapter, verse: Number(verse), text }))
+    .sort((a, b) => a.verse - b.verse);
+}
+
+export function getVerses(bible: Bible, reference: ScriptureReference): ScriptureVerse[] {
+  const { book } = reference;
+
+  return reference.ranges.flatMap(range => {
+    const verses: ScriptureVerse[] = [];
+    for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+      verses.push(...chapterVerses(bible, book, chapter));
+    }
+
+    const position = (chapter: number, verse: number) => chapter * 1000 + verse;
+    const start = position(range.startChapter, range.startVerse ?? 0);
+    const end = position(range.endChapter, range.endVerse ?? 999);
+
+    for (const [chapter, verse] of [[range.startChapter, range.startVerse], [range.endChapter, range.endVerse]]) {
+      if (verse !== null && !verses.some(v => v.chapter === chapter && v.verse === verse)) {
+        throw new Error(`${book} ${chapter}:${verse} is not in ${bible.name}`);
+      }
+    }
+
+    return verses.filter(v => position(v.chapter, v.verse) >= start && position(v.chapter, v.verse) <= end);
+  });
+}
+
+// Formats the verses actually shown, e.g. "John 3:16-18" or
+// "Romans 8:28, 31-32; 9:1".
+export function formatReference(book: string, verses: ScriptureVerse[]): string {
+  if (verses.length === 0) return book;
+
+  const chapters: string[] = [];
+  let i = 0;
+  while (i < verses.length) {
+    const chapter = verses[i].chapter;
+    const runs: string[] = [];
+    while (i < verses.length && verses[i].chapter === chapter) {
+      const first = verses[i].verse;
+      while (i + 1 < verses.length && verses[i + 1].chapter === chapter && verses[i + 1].verse === verses[i].verse + 1) {
+        i++;
+      }
+      const last = verses[i].verse;
+      runs.push(first === last ? `${first}` : `${first}-${last}`);
+      i++;
+    }
+    chapters.push(SINGLE_CHAPTER_BOOKS.has(book) ? runs.join(', ') : `${chapter}:${runs.join(', ')}`);
+  }
+
+  return `${book} ${chapters.join('; ')}`;
+}
+
+export const DEFAULT_MAX_PAGE_LENGTH = 350;
+
+// Groups verses into slides of roughly maxLength characters. Verses are
+// never split, so a single long verse gets a slide of its own.
+export function paginateVerses(verses: ScriptureVerse[], maxLength = DEFAULT_MAX_PAGE_LENGTH): ScriptureVerse[][] {
+  const pages: ScriptureVerse[][] = [];
+  let page: ScriptureVerse[] = [];
+  let length = 0;
+
+  for (const verse of verses) {
+    if (page.length > 0 && length + verse.text.length > maxLength) {
+      pages.push(page);
+      page = [];
+      length = 0;
+    }
+    page.push(verse);
+    length += verse.text.length;
+  }
+  if (page.length > 0) pages.push(page);
+
+  return pages;
+}
@@ -0,0 +1,65 @@
+import type { SegmentType } from '../types';
+
+export const SEGMENT_TYPES: SegmentType[] = [
+  'intro',
+  'verse',
+  'pre-chorus',
+  'chorus',
+  'refrain',
+  'bridge',
+  'interlude',
+  'vamp',
+  'tag',
+  'outro',
+  'ending'
+];
+
+export const SEGMENT_TYPE_LABELS: Record<SegmentType, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  'pre-chorus': 'Pre-Chorus',
+  chorus: 'Chorus',
+  refrain: 'Refrain',
+  bridge: 'Bridge',
+  interlude: 'Interlude',
+  vamp: 'Vamp',
+  tag: 'Tag',
+  outro: 'Outro',
+  ending: 'Ending'
+};
+
+export function isSegmentType(value: string): value is SegmentType {
+  return (SEGMENT_TYPES as string[]).includes(value);
+}
+
+// Short codes used when writing arrangements as text, e.g. "V1 C V2 C B".
+// A segment's number follows the code, so none of them end in a digit.
+export const SEGMENT_TYPE_CODES: Record<SegmentType, string> = {
+  intro: 'I',
+  verse: 'V',
+  'pre-chorus': 'P',
+  chorus: 'C',
+  refrain: 'R',
+  bridge: 'B',
+  interlude: 'IN',
+  vamp: 'VA',
+  tag: 'T',
+  outro: 'O',
+  ending: 'E'
+};
+
+// Badge colours, so the shape of a song can be seen at a glance in the
+// control panel
+export const SEGMENT_TYPE_COLORS: Record<SegmentType, string> = {
+  intro: 'bg-green-100 text-green-800',
+  verse: 'bg-blue-100 text-blue-800',
+  'pre-chorus': 'bg-orange-100 text-orange-800',
+  chorus: 'bg-red-100 text-red-800',
+  refrain: 'bg-fuchsia-100 text-fuchsia-800',
+  bridge: 'bg-purple-100 text-purple-800',
+  interlude: 'bg-cyan-100 text-cyan-800',
+  vamp: 'bg-lime-100 text-lime-800',
+  tag: 'bg-pink-100 text-pink-800',
+  outro: 'bg-teal-100 text-teal-800',
+  ending: 'bg-slate-200 text-slate-800'
+};
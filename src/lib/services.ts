@@ -0,0 +1,243 @@
+import { supabase, getUserProfile } from './supabase';
+import { SONG_COLUMNS } from './songs';
+import { isOfflineError, queueEdit, readCache, withOfflineCache, writeCache } from './offline';
+import type { BlankMode, QueueItem, ScriptureVerse, Service, ServiceItem, ServiceWithItems } from '../types';
+
+const SERVICE_COLUMNS = 'id, church_id, name, service_date, created_by, created_at, updated_at';
+
+export interface ServiceDraft {
+  id?: string;
+  name: string;
+  service_date: string;
+  items: QueueItem[];
+}
+
+// Dates are handled as local calendar days (YYYY-MM-DD), not instants.
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+}
+
+// The first date on or after today that falls on the same weekday, so that
+// last week's service is copied to this week's.
+export function nextOccurrence(dateString: string): string {
+  const today = toDateString(new Date());
+  let next = addDays(dateString, 7);
+  while (next < today) {
+    next = addDays(next, 7);
+  }
+  return next;
+}
+
+export function formatServiceDate(dateString: string): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+function toQueueItem(item: ServiceItem): QueueItem | null {
+  const data = item.data ?? {};
+  const text = (key: string) => (typeof data[key] === 'string' ? (data[key] as string) : '');
+  const base = { id: item.id, themeId: item.theme_id };
+
+  switch (item.item_type) {
+    case 'song':
+      // The song may have been deleted since the service was planned;
+      // countMissingSongs lets the planner say so
+      return item.song ? { ...base, type: 'song', song: item.song, arrangementId: item.arrangement_id } : null;
+    case 'text':
+      return { ...base, type: 'text', title: text('title'), content: text('content') };
+    case 'announcement':
+      return { ...base, type: 'announcement', title: text('title'), body: text('body'), image_url: text('image_url') || null };
+    case 'blank':
+      return { ...base, type: 'blank', mode: (text('mode') || 'black') as BlankMode };
+    case 'scripture':
+      return {
+        ...base,
+        type: 'scripture',
+        book: text('book'),
+        translation: text('translation'),
+        verses: Array.isArray(data.verses) ? (data.verses as ScriptureVerse[]) : []
+      };
+    default:
+      return null;
+  }
+}
+
+function toItemData(item: QueueItem): Record<string, unknown> | null {
+  switch (item.type) {
+    case 'song':
+      return null;
+    case 'text':
+      return { title: item.title, content: item.content };
+    case 'announcement':
+      return { title: item.title, body: item.body, image_url: item.image_url };
+    case 'blank':
+      return { mode: item.mode };
+    case 'scripture':
+      return { book: item.book, translation: item.translation, verses: item.verses };
+  }
+}
+
+function toServiceItem(item: QueueItem, index: number): Omit<ServiceItem, 'song'> {
+  return {
+    id: item.id,
+    position: index + 1,
+    item_type: item.type,
+    song_id: item.type === 'song' ? item.song.id : null,
+    arrangement_id: item.type === 'song' ? item.arrangementId : null,
+    theme_id: item.themeId ?? null,
+    data: toItemData(item)
+  };
+}
+
+export function toQueueItems(service: ServiceWithItems): QueueItem[] {
+  return [...service.items]
+    .sort((a, b) => a.position - b.position)
+    .map(toQueueItem)
+    .filter((item): item is QueueItem => !!item);
+}
+
+// Song items whose song was deleted from the library after the service was
+// planned, which toQueueItems leaves out
+export function countMissingSongs(service: ServiceWithItems): number {
+  return service.items.filter(item => item.item_type === 'song' && !item.song).length;
+}
+
+const servicesCacheKey = (churchId: string) => `services:${churchId}`;
+const serviceCacheKey = (serviceId: string) => `service:${serviceId}`;
+
+export async function loadServices(): Promise<Service[]> {
+  const profile = await getUserProfile();
+  return withOfflineCache(servicesCacheKey(profile.church_id), async () => {
+    const { data, error } = await supabase
+      .from('services')
+      .select(SERVICE_COLUMNS)
+      .eq('church_id', profile.church_id)
+      .order('service_date', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  });
+}
+
+export async function loadService(serviceId: string): Promise<ServiceWithItems | null> {
+  return withOfflineCache(serviceCacheKey(serviceId), () => fetchService(serviceId));
+}
+
+async function fetchService(serviceId: string): Promise<ServiceWithItems | null> {
+  const { data, error } = await supabase
+    .from('services')
+    .select(`
+      ${SERVICE_COLUMNS},
+      items:service_items (
+        id,
+        service_id,
+        position,
+        item_type,
+        song_id,
+        arrangement_id,
+        theme_id,
+        data,
+        song:songs (${SONG_COLUMNS})
+      )
+    `)
+    .eq('id', serviceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ServiceWithItems | null;
+}
+
+// Saves the service and its complete running order in one transaction.
+export async function pushService(draft: ServiceDraft): Promise<string> {
+  const { data, error } = await supabase.rpc('save_service', {
+    p_service: {
+      id: draft.id ?? null,
+      name: draft.name,
+      service_date: draft.service_date
+    },
+    p_items: draft.items.map(toServiceItem)
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Without a connection the service is queued and saved when it returns, and
+// the cached copy is updated so the running order can still be used
+export async function saveService(draft: ServiceDraft): Promise<string> {
+  try {
+    return await pushService(draft);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    const id = draft.id ?? crypto.randomUUID();
+    const profile = await getUserProfile();
+    const cached = await readCache<ServiceWithItems | null>(serviceCacheKey(id));
+    await queueEdit({
+      kind: 'service',
+      recordId: id,
+      label: draft.name,
+      baseUpdatedAt: cached?.updated_at ?? null,
+      payload: { ...draft, id }
+    });
+
+    const now = new Date().toISOString();
+    const service: Service = {
+      id,
+      church_id: cached?.church_id ?? profile.church_id,
+      name: draft.name,
+      service_date: draft.service_date,
+      created_by: cached?.created_by ?? profile.id,
+      created_at: cached?.created_at ?? now,
+      updated_at: cached?.updated_at ?? now
+    };
+    const items: ServiceItem[] = draft.items.map((item, index) => ({
+      ...toServiceItem(item, index),
+      service_id: id,
+      song: item.type === 'song' ? item.song : null
+    }));
+    await writeCache(serviceCacheKey(id), { ...service, items });
+
+    const listKey = servicesCacheKey(profile.church_id);
+    const services = (await readCache<Service[]>(listKey)) ?? [];
+    await writeCache(
+      listKey,
+      [...services.filter(s => s.id !== id), service].sort((a, b) => b.service_date.localeCompare(a.service_date))
+    );
+    return id;
+  }
+}
+
+export async function deleteService(serviceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('services')
+    .delete()
+    .eq('id', serviceId);
+
+  if (error) throw error;
+}
+
+// Copies a service, items included, to a new date (by default the next
+// matching weekday).
+export async function duplicateService(serviceId: string, serviceDate?: string): Promise<string> {
+  const service = await loadService(serviceId);
+  if (!service) throw new Error('Service not found');
+
+  return saveService({
+    name: service.name,
+    service_date: serviceDate ?? nextOccurrence(service.service_date),
+    items: toQueueItems(service).map(item => ({ ...item, id: crypto.randomUUID() }))
+  });
+}
@@ -0,0 +1,188 @@
+import { getSegmentLabels, getSongSequence } from './arrangements';
+import { getChordShift, getSongKey, hasInlineChords, stripChords, transposeChords, transposeKey, usesFlats } from './chords';
+import { formatReference, paginateVerses } from './scripture';
+import { SEGMENT_TYPE_LABELS } from './segmentTypes';
+import { getSongCredit } from './songMetadata';
+import { splitLineRanges } from './textFit';
+import { DEFAULT_THEME_SETTINGS } from './themes';
+import { DEFAULT_SLIDE_LANGUAGES, getTranslationLanguage } from './translations';
+import type {
+  AnnouncementQueueItem,
+  BlankQueueItem,
+  PresentationThemeSettings,
+  QueueItem,
+  QueueItemType,
+  Slide,
+  SlideLanguages,
+  Song,
+  SongSegment,
+  TextQueueItem
+} from '../types';
+
+export const QUEUE_ITEM_TYPE_LABELS: Record<QueueItemType, string> = {
+  song: 'Song',
+  text: 'Custom Slide',
+  announcement: 'Announcement',
+  blank: 'Blank Screen',
+  scripture: 'Scripture'
+};
+
+// Items whose content is written in the queue rather than the song library
+export type EditableQueueItem = TextQueueItem | AnnouncementQueueItem | BlankQueueItem;
+
+export function newQueueItem(type: EditableQueueItem['type']): EditableQueueItem {
+  const id = crypto.randomUUID();
+  switch (type) {
+    case 'text':
+      return { id, type, title: '', content: '' };
+    case 'announcement':
+      return { id, type, title: '', body: '', image_url: null };
+    case 'blank':
+      return { id, type, mode: 'black' };
+  }
+}
+
+export function isEditableItem(item: QueueItem): item is EditableQueueItem {
+  return item.type === 'text' || item.type === 'announcement' || item.type === 'blank';
+}
+
+// Transposes a song's chords for its capo, spelling them for the key the
+// musicians end up reading
+function getChordTransposer(song: Song): (content: string) => string {
+  const shift = getChordShift(song.transpose ?? 0, song.capo ?? 0);
+  const ordered = [...song.segments].sort((a, b) => a.order_num - b.order_num);
+  const key = getSongKey(ordered.map(segment => segment.content).join('\n'), song.original_key);
+  const flats = key ? usesFlats(transposeKey(key, shift)) : false;
+  return content => transposeChords(content, shift, flats);
+}
+
+// The text a segment's slides show in the main and the secondary style. A
+// segment without the translation is shown in the original language alone.
+function getSegmentText(segment: SongSegment, language: string | null, mode: SlideLanguages['mode']) {
+  const translation = (language && segment.translations?.[language]?.trim()) || null;
+  if (!translation || mode === 'original') return { main: segment.content, secondary: null };
+  // Chords belong to the original words
+  if (mode === 'translation') return { main: translation, secondary: null };
+  return { main: segment.content, secondary: translation };
+}
+
+// Song segments too long for the theme are split into several slides, so
+// the theme (and whether a translation is shown with the lyrics) decides
+// how many slides a song has.
+export function getItemSlides(
+  item: QueueItem | null,
+  theme: PresentationThemeSettings = DEFAULT_THEME_SETTINGS,
+  languages: SlideLanguages = DEFAULT_SLIDE_LANGUAGES
+): Slide[] {
+  if (!item) return [];
+
+  switch (item.type) {
+    case 'song': {
+      const { id, title, author } = item.song;
+      const transpose = getChordTransposer(item.song);
+      const labels = getSegmentLabels(item.song.segments);
+      const language = getTranslationLanguage(item.song, languages.translation);
+      const slides = getSongSequence(item.song, item.arrangementId).flatMap(segment => {
+        const { main, secondary } = getSegmentText(segment, language, languages.mode);
+        // Stripping chords keeps every line, so both versions split alike
+        const lyrics = stripChords(main);
+        const lyricLines = lyrics.split('\n');
+        const secondaryLines = secondary?.split('\n') ?? null;
+        const chordLines = hasInlineChords(main) ? transpose(main).split('\n') : null;
+        const ranges = splitLineRanges({ title, body: lyrics, secondary: secondary ?? undefined }, theme);
+        return ranges.map(({ start, end }, part): Slide => ({
+          type: 'song',
+          song: { id, title, author },
+          segment: { ...segment, content: lyricLines.slice(start, end).join('\n') },
+          label: labels.get(segment.id) ?? SEGMENT_TYPE_LABELS[segment.type],
+          // Any lines the translation has beyond the original go on the last part
+          translation: secondaryLines && secondaryLines.slice(start, part === ranges.length - 1 ? undefined : end).join('\n'),
+          part,
+          parts: ranges.length,
+          chords: chordLines && chordLines.slice(start, end).join('\n'),
+          credit: null
+        }));
+      });
+      // Licences ask for the credit on the first or last slide of the song
+      const creditIndex = theme.credit_slide === 'first' ? 0 : theme.credit_slide === 'last' ? slides.length - 1 : -1;
+      return slides.map((slide, index) =>
+        index === creditIndex && slide.type === 'song' ? { ...slide, credit: getSongCredit(item.song) } : slide
+      );
+    }
+    case 'text':
+      return [{ type: 'text', title: item.title, content: item.content }];
+    case 'announcement':
+      return [{ type: 'announcement', title: item.title, body: item.body, image_url: item.image_url }];
+    case 'blank':
+      return [{ type: 'blank', mode: item.mode }];
+    case 'scripture':
+      return paginateVerses(item.verses).map(verses => ({
+        type: 'scripture',
+        reference: formatReference(item.book, verses),
+        translation: item.translation,
+        verses
+      }));
+  }
+}
+
+export function getItemTitle(item: QueueItem): string {
+  switch (item.type) {
+    case 'song':
+      return item.song.title;
+    case 'text':
+    case 'announcement':
+      return item.title || QUEUE_ITEM_TYPE_LABELS[item.type];
+    case 'blank':
+      return item.mode === 'logo' ? 'Logo' : 'Black Screen';
+    case 'scripture':
+      return formatReference(item.book, item.verses);
+  }
+}
+
+export function getItemSubtitle(item: QueueItem): string {
+  switch (item.type) {
+    case 'song':
+      return item.song.author;
+    case 'text':
+      return item.content.split('\n')[0];
+    case 'announcement':
+      return item.body.split('\n')[0];
+    case 'blank':
+      return QUEUE_ITEM_TYPE_LABELS.blank;
+    case 'scripture':
+      return item.translation;
+  }
+}
+
+// A short description of a slide for the stage display, e.g. "Verse 2 (1/2)"
+export function getSlideHeading(slide: Slide): string {
+  switch (slide.type) {
+    case 'song': {
+      return slide.parts > 1 ? `${slide.label} (${slide.part + 1}/${slide.parts})` : slide.label;
+    }
+    case 'text':
+      return slide.title || QUEUE_ITEM_TYPE_LABELS.text;
+    case 'announcement':
+      return QUEUE_ITEM_TYPE_LABELS.announcement;
+    case 'blank':
+      return slide.mode === 'logo' ? 'Logo' : 'Black Screen';
+    case 'scripture':
+      return `${slide.reference} (${slide.translation})`;
+  }
+}
+
+// The words on a slide as plain text, one line per line on screen
+export function getSlideText(slide: Slide): string {
+  switch (slide.type) {
+    case 'song':
+      return slide.segment.content;
+    case 'text':
+      return slide.content;
+    case 'announcement':
+      return slide.title;
+    case 'blank':
+      return '';
+    case 'scripture':
+      return slide.verses.map(verse => verse.text).join(' ');
+  }
+}
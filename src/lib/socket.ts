@@ -1,10 +1,14 @@
 import { io, Socket } from 'socket.io-client';
+import { supabase } from './supabase';
+import type { PresentationTransport } from './transport';
+import type { ConnectedOutput, OutputRole } from '../types';
 
-class SocketService {
+class SocketService implements PresentationTransport {
   private socket: Socket | null = null;
   private updateHandlers: Set<Function> = new Set();
   private disconnectHandlers: Set<Function> = new Set();
   private reconnectHandlers: Set<Function> = new Set();
+  private outputsHandlers: Set<(outputs: ConnectedOutput[]) => void> = new Set();
   private connectionPromise: Promise<void> | null = null;
   private retryAttempts = 0;
   private maxRetries = 5;
@@ -13,6 +17,8 @@ class SocketService {
   private isConnecting: boolean = false;
   private lastError: Error | null = null;
   private cleanupFunctions: Array<() => void> = [];
+  // Repeated after a reconnect, since rooms belong to the old connection
+  private registration: { event: 'registerPresentation' | 'registerControl'; data: unknown } | null = null;
 
   private getSocketUrl(): string {
     try {
@@ -110,8 +116,11 @@ class SocketService {
           autoConnect: false,
           forceNew: true,
           path: '/socket.io',
-          auth: {
-            timestamp: Date.now()
+          // Called on every connection attempt, so reconnects send a fresh token
+          auth: (cb) => {
+            supabase.auth.getSession()
+              .then(({ data }) => cb({ token: data.session?.access_token }))
+              .catch(() => cb({}));
           }
         });
 
@@ -119,6 +128,9 @@ class SocketService {
           console.log('Socket connected:', this.socket?.id);
           clearTimeout(timeoutId);
           this.retryAttempts = 0;
+          if (this.registration) {
+            this.socket?.emit(this.registration.event, this.registration.data);
+          }
           this.reconnectHandlers.forEach(handler => handler());
           resolve();
         });
@@ -126,6 +138,13 @@ class SocketService {
         this.socket.on('connect_error', (error) => {
           console.error('Socket connect_error:', error);
           this.lastError = error;
+
+          // Retrying won't help until the user signs in again
+          if ((error as Error & { data?: { code?: string } }).data?.code === 'unauthorized') {
+            clearTimeout(timeoutId);
+            this.socket?.disconnect();
+            reject(error);
+          }
         });
 
         this.socket.on('connect_timeout', (timeout) => {
@@ -148,6 +167,11 @@ class SocketService {
           this.updateHandlers.forEach(handler => handler(data));
         });
 
+        // Sent to control panels whenever a display comes or goes
+        this.socket.on('outputsChanged', (outputs: ConnectedOutput[]) => {
+          this.outputsHandlers.forEach(handler => handler(outputs));
+        });
+
         this.socket.connect();
 
       } catch (error) {
@@ -179,6 +203,7 @@ class SocketService {
       this.isConnecting = false;
       this.lastError = null;
       this.retryAttempts = 0;
+      this.registration = null;
     } catch (error) {
       console.error('Error during disconnect:', error);
     }
@@ -195,22 +220,24 @@ class SocketService {
     this.cleanupFunctions = [];
   }
 
-  public async registerPresentation(): Promise<void> {
+  // clientId lets the control panel match a display it also sees locally
+  public async registerPresentation(role: OutputRole = 'main', clientId?: string): Promise<void> {
     try {
       if (!this.socket?.connected) {
         await this.connect();
       }
-      console.log('Registering presentation window');
+      console.log('Registering presentation window as', role);
       return new Promise((resolve, reject) => {
         const timeoutId = setTimeout(() => {
           reject(new Error('Registration timeout'));
         }, 5000);
 
-        this.socket?.emit('registerPresentation', null, (response: any) => {
+        this.socket?.emit('registerPresentation', { role, clientId }, (response: any) => {
           clearTimeout(timeoutId);
           if (response?.error) {
             reject(new Error(response.error));
           } else {
+            this.registration = { event: 'registerPresentation', data: { role, clientId } };
             resolve();
           }
         });
@@ -237,6 +264,7 @@ class SocketService {
           if (response?.error) {
             reject(new Error(response.error));
           } else {
+            this.registration = { event: 'registerControl', data: null };
             resolve();
           }
         });
@@ -287,6 +315,11 @@ class SocketService {
     return () => this.reconnectHandlers.delete(handler);
   }
 
+  public onOutputs(handler: (outputs: ConnectedOutput[]) => void): () => void {
+    this.outputsHandlers.add(handler);
+    return () => this.outputsHandlers.delete(handler);
+  }
+
   public isConnected(): boolean {
     return this.socket?.connected ?? false;
   }
@@ -0,0 +1,60 @@
+import { formatKey } from './chords';
+import type { Song } from '../types';
+
+// Every major key then every minor key, spelt as the chord tools spell them
+export const SONG_KEYS: string[] = [false, true].flatMap(minor =>
+  Array.from({ length: 12 }, (_, root) => formatKey({ root, minor }))
+);
+
+export const TIME_SIGNATURES = ['4/4', '3/4', '6/8', '2/4', '12/8', '2/2', '5/4', '7/8'];
+
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 300;
+
+// Languages songs are most often sung in, by ISO 639-1 code
+export const SONG_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  nl: 'Dutch',
+  it: 'Italian',
+  pl: 'Polish',
+  ro: 'Romanian',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  sw: 'Swahili',
+  ko: 'Korean',
+  zh: 'Chinese',
+  tl: 'Tagalog',
+  id: 'Indonesian',
+  la: 'Latin'
+};
+
+export function languageName(code: string): string {
+  return SONG_LANGUAGES[code] ?? code;
+}
+
+// Tags are compared case-insensitively, so they're stored lower case and
+// without duplicates
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean))];
+}
+
+export function parseTags(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+// The line shown on screen to credit a song, e.g.
+// "John Newton · © 1996 Example Music · CCLI Song #22025"
+export function getSongCredit(song: Pick<Song, 'author' | 'copyright' | 'publisher' | 'ccli_number'>): string | null {
+  const parts = [
+    song.author,
+    song.copyright,
+    // Usually part of the copyright line already
+    song.publisher && !song.copyright?.includes(song.publisher) ? song.publisher : null,
+    song.ccli_number ? `CCLI Song #${song.ccli_number}` : null
+  ].map(part => part?.trim()).filter(Boolean);
+  return parts.length ? parts.join(' · ') : null;
+}
@@ -0,0 +1,249 @@
+import { supabase } from './supabase';
+import { libraryCacheKey, SONG_COLUMNS } from './songs';
+import { stripChords } from './chords';
+import { SONG_KEYS } from './songMetadata';
+import { isOfflineError, readCache, setOnline } from './offline';
+import type { Song } from '../types';
+
+export const SONG_PAGE_SIZE = 25;
+
+// search_songs wraps each match in the snippet with these, which can't
+// appear in lyrics typed into the app
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export interface SongSearchResult {
+  song: Song;
+  // A few words of lyrics around the match, or null when only the title or
+  // author matched
+  snippet: string | null;
+}
+
+export interface SongPage {
+  results: SongSearchResult[];
+  total: number;
+}
+
+// Narrows the library to songs with this tag, original key or language
+export interface SongFilters {
+  tag: string | null;
+  key: string | null;
+  language: string | null;
+}
+
+export const NO_SONG_FILTERS: SongFilters = { tag: null, key: null, language: null };
+
+// The values the library's songs use, to offer as filters
+export interface SongFilterOptions {
+  tags: string[];
+  keys: string[];
+  languages: string[];
+}
+
+// Splits a snippet into plain text and the matched words to highlight
+export function splitSnippet(snippet: string): Array<{ text: string; match: boolean }> {
+  return snippet
+    .replace(/\s*\n\s*/g, ' / ')
+    .split(MATCH_END)
+    .flatMap(part => {
+      const [before, match] = part.split(MATCH_START);
+      return match === undefined
+        ? [{ text: before, match: false }]
+        : [{ text: before, match: false }, { text: match, match: true }];
+    })
+    .filter(part => part.text);
+}
+
+async function loadSongPage(churchId: string, filters: SongFilters, page: number): Promise<SongPage> {
+  const from = page * SONG_PAGE_SIZE;
+  let query = supabase
+    .from('songs')
+    .select(SONG_COLUMNS, { count: 'exact' })
+    .eq('church_id', churchId);
+  if (filters.tag) query = query.contains('tags', [filters.tag]);
+  if (filters.key) query = query.eq('original_key', filters.key);
+  if (filters.language) query = query.eq('language', filters.language);
+
+  const { data, error, count } = await query
+    .order('title', { ascending: true })
+    .range(from, from + SONG_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return {
+    results: ((data ?? []) as Song[]).map(song => ({ song, snippet: null })),
+    total: count ?? 0
+  };
+}
+
+// The search_songs RPC ranks and pages the matches; the songs themselves
+// are then loaded like anywhere else in the app
+async function searchOnServer(query: string, filters: SongFilters, page: number): Promise<SongPage> {
+  const { data, error } = await supabase.rpc('search_songs', {
+    p_query: query,
+    p_limit: SONG_PAGE_SIZE,
+    p_offset: page * SONG_PAGE_SIZE,
+    p_tag: filters.tag,
+    p_key: filters.key,
+    p_language: filters.language
+  });
+
+  if (error) throw error;
+  const matches = (data ?? []) as Array<{ id: string; snippet: string | null; total_count: number }>;
+  if (!matches.length) return { results: [], total: 0 };
+
+  const { data: songs, error: songsError } = await supabase
+    .from('songs')
+    .select(SONG_COLUMNS)
+    .in('id', matches.map(match => match.id));
+
+  if (songsError) throw songsError;
+  const songsById = new Map(((songs ?? []) as Song[]).map(song => [song.id, song]));
+  return {
+    results: matches
+      .filter(match => songsById.has(match.id))
+      .map(match => ({ song: songsById.get(match.id)!, snippet: match.snippet })),
+    total: Number(matches[0].total_count)
+  };
+}
+
+// Folds case and accents and drops punctuation, as the server's search does
+function searchWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function matchesAll(words: string[], queryWords: string[]): boolean {
+  return queryWords.every(queryWord => words.some(word => word.startsWith(queryWord)));
+}
+
+function countMatches(words: string[], queryWords: string[]): number {
+  return queryWords.filter(queryWord => words.some(word => word.startsWith(queryWord))).length;
+}
+
+function markMatches(line: string, queryWords: string[]): string | null {
+  let matched = false;
+  const marked = line.replace(/[\p{L}\p{M}\p{N}]+/gu, token => {
+    const [word = ''] = searchWords(token);
+    if (!queryWords.some(queryWord => word.startsWith(queryWord))) return token;
+    matched = true;
+    return `${MATCH_START}${token}${MATCH_END}`;
+  });
+  return matched ? marked : null;
+}
+
+function matchesFilters(song: Song, filters: SongFilters): boolean {
+  return (
+    (!filters.tag || (song.tags ?? []).includes(filters.tag)) &&
+    (!filters.key || song.original_key === filters.key) &&
+    (!filters.language || song.language === filters.language)
+  );
+}
+
+// The same search over the offline copy of the library, ranking title
+// matches above author matches above lyrics
+function searchCachedLibrary(songs: Song[], query: string, page: number): SongPage {
+  const queryWords = searchWords(query);
+  const results = songs
+    .map(song => {
+      const lyrics = stripChords(
+        [...song.segments].sort((a, b) => a.order_num - b.order_num).map(segment => segment.content).join('\n')
+      );
+      const titleWords = searchWords(song.title);
+      const authorWords = searchWords(song.author);
+      const lyricWords = searchWords(lyrics);
+      if (!matchesAll([...titleWords, ...authorWords, ...lyricWords], queryWords)) return null;
+
+      const rank =
+        countMatches(titleWords, queryWords) * 4 +
+        countMatches(authorWords, queryWords) * 2 +
+        countMatches(lyricWords, queryWords);
+      const snippet = lyrics
+        .split('\n')
+        .map(line => markMatches(line, queryWords))
+        .find(line => line !== null) ?? null;
+      return { song, snippet, rank };
+    })
+    .filter(result => result !== null)
+    .sort((a, b) => b.rank - a.rank || a.song.title.localeCompare(b.song.title));
+
+  const from = page * SONG_PAGE_SIZE;
+  return {
+    results: results.slice(from, from + SONG_PAGE_SIZE).map(({ song, snippet }) => ({ song, snippet })),
+    total: results.length
+  };
+}
+
+// One page of the library, or of the songs matching the query by title,
+// author or lyrics. Falls back to the offline copy of the library.
+export async function searchSongs(
+  churchId: string,
+  query: string,
+  page: number,
+  filters: SongFilters = NO_SONG_FILTERS
+): Promise<SongPage> {
+  const hasQuery = searchWords(query).length > 0;
+  try {
+    const result = hasQuery
+      ? await searchOnServer(query, filters, page)
+      : await loadSongPage(churchId, filters, page);
+    setOnline(true);
+    return result;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    setOnline(false);
+    const library = await readCache<Song[]>(libraryCacheKey(churchId)).catch(() => undefined);
+    if (!library) throw error;
+    const songs = library.filter(song => matchesFilters(song, filters));
+    return hasQuery
+      ? searchCachedLibrary(songs, query, page)
+      : {
+          results: songs.slice(page * SONG_PAGE_SIZE, (page + 1) * SONG_PAGE_SIZE).map(song => ({ song, snippet: null })),
+          total: songs.length
+        };
+  }
+}
+
+type FilterValues = Array<string | null | undefined>;
+
+// Distinct values in the order the filters list them: keys as the key
+// pickers list them, the rest alphabetically
+function sortFilterOptions(options: { tags: FilterValues; keys: FilterValues; languages: FilterValues }): SongFilterOptions {
+  const distinct = (values: Array<string | null | undefined>) =>
+    [...new Set(values.filter((value): value is string => !!value))];
+  return {
+    tags: distinct(options.tags).sort(),
+    keys: distinct(options.keys).sort(
+      (a, b) => SONG_KEYS.indexOf(a) - SONG_KEYS.indexOf(b) || a.localeCompare(b)
+    ),
+    languages: distinct(options.languages).sort()
+  };
+}
+
+function getFilterOptions(songs: Array<Pick<Song, 'tags' | 'original_key' | 'language'>>): SongFilterOptions {
+  return sortFilterOptions({
+    tags: songs.flatMap(song => song.tags ?? []),
+    keys: songs.map(song => song.original_key),
+    languages: songs.map(song => song.language)
+  });
+}
+
+// The server sends each distinct value once, however big the library
+export async function loadSongFilterOptions(churchId: string): Promise<SongFilterOptions> {
+  try {
+    const { data, error } = await supabase.rpc('song_filter_options');
+
+    if (error) throw error;
+    const values = (data ?? []) as Array<{ kind: 'tag' | 'key' | 'language'; value: string }>;
+    const ofKind = (kind: string) => values.filter(row => row.kind === kind).map(row => row.value);
+    return sortFilterOptions({ tags: ofKind('tag'), keys: ofKind('key'), languages: ofKind('language') });
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    const songs = await readCache<Song[]>(libraryCacheKey(churchId)).catch(() => undefined);
+    if (!songs) throw error;
+    return getFilterOptions(songs);
+  }
+}
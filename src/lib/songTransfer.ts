@@ -0,0 +1,232 @@
+import { handleSupabaseError } from './supabase';
+import { createSegmentId, saveSong } from './songs';
+import { songFromOpenLyrics, songToOpenLyrics } from './openLyrics';
+import { isSegmentType } from './segmentTypes';
+import { normalizeTags } from './songMetadata';
+import { cleanTranslations } from './translations';
+import { createZip } from './zip';
+import { toFileName } from './download';
+import type { Song, SongDraft } from '../types';
+
+export const BACKUP_FORMAT = 'worship-present-backup';
+export const BACKUP_VERSION = 1;
+
+// Song details a backup carries. Backups made before they existed leave them
+// out, and importing one over a song keeps the song's own.
+const BACKUP_DETAIL_KEYS = [
+  'ccli_number',
+  'copyright',
+  'publisher',
+  'original_key',
+  'tempo',
+  'time_signature',
+  'language',
+  'tags'
+] as const;
+
+type BackupDetails = Partial<Pick<SongDraft, (typeof BACKUP_DETAIL_KEYS)[number]>>;
+
+export interface SongBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  songs: Array<BackupDetails & {
+    title: string;
+    author: string;
+    segments: Array<{
+      type: string;
+      label?: string | null;
+      order_num: number;
+      content: string;
+      translations?: Record<string, string>;
+    }>;
+    // Sequences refer to segments by their position in the segments array
+    arrangements?: Array<{ name: string; sequence: number[]; is_default: boolean }>;
+  }>;
+}
+
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportCandidate {
+  source: string;
+  draft: SongDraft;
+  duplicateOf: Song | null;
+  resolution: DuplicateResolution;
+}
+
+export interface ImportResult {
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  failed: Array<{ title: string; error: string }>;
+}
+
+function pickDetails(song: BackupDetails): BackupDetails {
+  return Object.fromEntries(
+    BACKUP_DETAIL_KEYS.filter(key => song[key] !== undefined).map(key => [key, song[key]])
+  );
+}
+
+export function createBackup(songs: Song[]): SongBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    songs: songs.map(song => {
+      const segments = [...song.segments].sort((a, b) => a.order_num - b.order_num);
+      const positions = new Map(segments.map((segment, index) => [segment.id, index]));
+      return {
+        title: song.title,
+        author: song.author,
+        ...pickDetails(song),
+        segments: segments.map(({ type, label, order_num, content, translations }) => ({
+          type,
+          label: label ?? null,
+          order_num,
+          content,
+          translations: cleanTranslations(translations)
+        })),
+        arrangements: (song.arrangements ?? []).map(arrangement => ({
+          name: arrangement.name,
+          sequence: arrangement.sequence
+            .map(id => positions.get(id))
+            .filter((position): position is number => position !== undefined),
+          is_default: arrangement.is_default
+        }))
+      };
+    })
+  };
+}
+
+export function parseBackup(json: string): SongDraft[] {
+  const backup = JSON.parse(json) as Partial<SongBackup>;
+  if (backup.format !== BACKUP_FORMAT || !Array.isArray(backup.songs)) {
+    throw new Error('Not a Worship Present backup file');
+  }
+  if ((backup.version ?? 0) > BACKUP_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  return backup.songs.map(song => {
+    const segments = [...(song.segments ?? [])]
+      .sort((a, b) => a.order_num - b.order_num)
+      .map((segment, index) => ({
+        id: createSegmentId(),
+        type: isSegmentType(segment.type) ? segment.type : 'verse',
+        label: typeof segment.label === 'string' ? segment.label : null,
+        order_num: index + 1,
+        content: segment.content,
+        translations: cleanTranslations(segment.translations)
+      }));
+
+    return {
+      title: song.title,
+      author: song.author ?? '',
+      ...pickDetails(song),
+      ...(Array.isArray(song.tags) && { tags: normalizeTags(song.tags) }),
+      segments,
+      arrangements: song.arrangements?.length
+        ? song.arrangements.map(arrangement => ({
+            id: crypto.randomUUID(),
+            name: arrangement.name,
+            sequence: arrangement.sequence
+              .map(position => segments[position]?.id)
+              .filter((id): id is string => !!id),
+            is_default: arrangement.is_default
+          }))
+        : undefined
+    };
+  });
+}
+
+export function createOpenLyricsArchive(songs: Song[]): Blob {
+  const usedNames = new Set<string>();
+  return createZip(songs.map(song => {
+    let name = toFileName(`${song.title} ${song.author}`, 'xml');
+    for (let i = 2; usedNames.has(name); i++) {
+      name = toFileName(`${song.title} ${song.author} ${i}`, 'xml');
+    }
+    usedNames.add(name);
+    return { name, content: songToOpenLyrics(song) };
+  }));
+}
+
+function songKey(title: string, author: string): string {
+  const normalize = (value: string) =>
+    value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  return `${normalize(title)}\u0000${normalize(author)}`;
+}
+
+// Reads OpenLyrics XML files and JSON backups into import candidates, matching
+// each against the existing library by title and author.
+export async function readImportFiles(files: File[], library: Song[]): Promise<{
+  candidates: ImportCandidate[];
+  errors: string[];
+}> {
+  const existing = new Map(library.map(song => [songKey(song.title, song.author), song]));
+  const candidates: ImportCandidate[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    try {
+      const text = await file.text();
+      const drafts = file.name.toLowerCase().endsWith('.json')
+        ? parseBackup(text)
+        : [songFromOpenLyrics(text)];
+
+      for (const draft of drafts) {
+        if (!draft.title.trim()) {
+          errors.push(`${file.name}: a song without a title was ignored`);
+          continue;
+        }
+        const duplicateOf = existing.get(songKey(draft.title, draft.author)) ?? null;
+        candidates.push({
+          source: file.name,
+          draft,
+          duplicateOf,
+          resolution: duplicateOf ? 'skip' : 'keep-both'
+        });
+      }
+    } catch (error) {
+      errors.push(`${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`);
+    }
+  }
+
+  return { candidates, errors };
+}
+
+export async function importSongs(
+  candidates: ImportCandidate[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: 0, overwritten: 0, skipped: 0, failed: [] };
+
+  for (const [index, candidate] of candidates.entries()) {
+    try {
+      if (candidate.duplicateOf && candidate.resolution === 'skip') {
+        result.skipped++;
+      } else if (candidate.duplicateOf && candidate.resolution === 'overwrite') {
+        // The imported segments are new, so the old arrangements would be
+        // left pointing at nothing; without arrangements of its own the song
+        // falls back to its natural order
+        await saveSong({
+          ...candidate.draft,
+          id: candidate.duplicateOf.id,
+          arrangements: candidate.draft.arrangements ?? []
+        });
+        result.overwritten++;
+      } else {
+        await saveSong(candidate.draft);
+        result.imported++;
+      }
+    } catch (error) {
+      result.failed.push({
+        title: candidate.draft.title,
+        error: handleSupabaseError(error)
+      });
+    }
+    onProgress?.(index + 1, candidates.length);
+  }
+
+  return result;
+}
@@ -0,0 +1,260 @@
+import { getUserProfile, supabase } from './supabase';
+import { isOfflineError, queueEdit, readCache, withOfflineCache, writeCache } from './offline';
+import { cleanTranslations } from './translations';
+import type { Song, SongDraft, UserRole } from '../types';
+
+// Columns selected whenever a song is loaded for display or presentation.
+export const SONG_COLUMNS = `
+  id,
+  title,
+  author,
+  church_id,
+  created_by,
+  created_at,
+  updated_at,
+  theme_id,
+  transpose,
+  capo,
+  ccli_number,
+  copyright,
+  publisher,
+  original_key,
+  tempo,
+  time_signature,
+  language,
+  tags,
+  segments:song_segments (
+    id,
+    song_id,
+    type,
+    label,
+    order_num,
+    content,
+    translations,
+    created_at
+  ),
+  arrangements:song_arrangements (
+    id,
+    name,
+    sequence,
+    is_default
+  )
+`;
+
+// Song details that, like theme_id, are only changed when a draft includes
+// them
+const SONG_DETAIL_KEYS = [
+  'theme_id',
+  'transpose',
+  'capo',
+  'ccli_number',
+  'copyright',
+  'publisher',
+  'original_key',
+  'tempo',
+  'time_signature',
+  'language',
+  'tags'
+] as const;
+
+function getSongDetails(draft: SongDraft): Partial<Pick<SongDraft, (typeof SONG_DETAIL_KEYS)[number]>> {
+  return Object.fromEntries(
+    SONG_DETAIL_KEYS.filter(key => draft[key] !== undefined).map(key => [key, draft[key]])
+  );
+}
+
+export function canEditSongs(role: UserRole | null | undefined): boolean {
+  return role === 'admin' || role === 'editor';
+}
+
+export function createSegmentId(): string {
+  return crypto.randomUUID();
+}
+
+export const libraryCacheKey = (churchId: string) => `library:${churchId}`;
+// The newest updated_at the server has sent for the cached library. Offline
+// edits stamp the cache with this machine's clock, so it's kept apart.
+const librarySyncedKey = (churchId: string) => `library-synced:${churchId}`;
+
+// The server returns at most 1000 rows per request
+const PAGE_SIZE = 500;
+
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Songs are paged in a stable order, so none is skipped or repeated
+function fetchSongs(churchId: string, changedSince?: string): Promise<Song[]> {
+  return fetchAllPages<Song>((from, to) => {
+    let query = supabase
+      .from('songs')
+      .select(SONG_COLUMNS)
+      .eq('church_id', churchId);
+    if (changedSince) query = query.gte('updated_at', changedSince);
+    return query
+      .order('title', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to);
+  });
+}
+
+function latestUpdate(songs: Song[], since = ''): string {
+  return songs.reduce((latest, song) => (song.updated_at > latest ? song.updated_at : latest), since);
+}
+
+export async function loadLibrary(churchId: string): Promise<Song[]> {
+  return withOfflineCache(libraryCacheKey(churchId), async () => {
+    const songs = await fetchSongs(churchId);
+    await writeCache(librarySyncedKey(churchId), latestUpdate(songs));
+    return songs;
+  });
+}
+
+// Brings the offline copy of the library up to date, fetching only the songs
+// changed since it was last refreshed and dropping any deleted since
+export async function refreshLibraryCache(churchId: string): Promise<void> {
+  const [cached, syncedAt] = await Promise.all([
+    readCache<Song[]>(libraryCacheKey(churchId)),
+    readCache<string>(librarySyncedKey(churchId))
+  ]);
+  if (!cached || !syncedAt) {
+    await loadLibrary(churchId);
+    return;
+  }
+
+  const [changed, remaining] = await Promise.all([
+    fetchSongs(churchId, syncedAt),
+    fetchAllPages<{ id: string }>((from, to) =>
+      supabase.from('songs').select('id').eq('church_id', churchId).order('id').range(from, to)
+    )
+  ]);
+  const ids = new Set(remaining.map(song => song.id));
+  const changedIds = new Set(changed.map(song => song.id));
+  const songs = [...cached.filter(song => ids.has(song.id) && !changedIds.has(song.id)), ...changed]
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  await writeCache(libraryCacheKey(churchId), songs);
+  await writeCache(librarySyncedKey(churchId), latestUpdate(changed, syncedAt));
+}
+
+// Turns a stored song into an editable draft, renumbering segments so that
+// order_num is always a dense 1..n sequence.
+export function toSongDraft(song: Song): SongDraft {
+  return {
+    id: song.id,
+    title: song.title,
+    author: song.author,
+    theme_id: song.theme_id ?? null,
+    transpose: song.transpose ?? 0,
+    capo: song.capo ?? 0,
+    ccli_number: song.ccli_number ?? null,
+    copyright: song.copyright ?? null,
+    publisher: song.publisher ?? null,
+    original_key: song.original_key ?? null,
+    tempo: song.tempo ?? null,
+    time_signature: song.time_signature ?? null,
+    language: song.language ?? null,
+    tags: [...(song.tags ?? [])],
+    segments: [...song.segments]
+      .sort((a, b) => a.order_num - b.order_num)
+      .map((segment, index) => ({
+        id: segment.id,
+        type: segment.type,
+        label: segment.label ?? null,
+        order_num: index + 1,
+        content: segment.content,
+        translations: { ...segment.translations }
+      })),
+    arrangements: (song.arrangements ?? []).map(({ id, name, sequence, is_default }) => ({
+      id,
+      name,
+      sequence: [...sequence],
+      is_default
+    }))
+  };
+}
+
+// Saves the song, its segments and (when given) its arrangements through the
+// save_song RPC, which runs in a single transaction so a song is never left
+// half-saved.
+export async function pushSong(draft: SongDraft): Promise<string> {
+  const { data, error } = await supabase.rpc('save_song', {
+    p_song: {
+      id: draft.id ?? null,
+      title: draft.title,
+      author: draft.author,
+      ...getSongDetails(draft)
+    },
+    p_segments: draft.segments.map((segment, index) => ({
+      id: segment.id,
+      type: segment.type,
+      label: segment.label?.trim() || null,
+      order_num: index + 1,
+      content: segment.content,
+      translations: cleanTranslations(segment.translations)
+    })),
+    p_arrangements: draft.arrangements ?? null
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Applies an offline edit to the cached library so it shows straight away.
+// updated_at is left alone: it marks the version the edit was based on.
+function applyDraft(songs: Song[], draft: SongDraft & { id: string }, profile: { id: string; church_id: string }): Song[] {
+  const existing = songs.find(song => song.id === draft.id);
+  const now = new Date().toISOString();
+  const song: Song = {
+    ...(existing ?? { church_id: profile.church_id, created_by: profile.id, created_at: now, updated_at: now }),
+    id: draft.id,
+    title: draft.title,
+    author: draft.author,
+    segments: draft.segments.map((segment, index) => ({ ...segment, song_id: draft.id, order_num: index + 1 })),
+    ...(draft.arrangements && { arrangements: draft.arrangements }),
+    ...getSongDetails(draft)
+  };
+  return [...songs.filter(s => s.id !== draft.id), song].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+// Without a connection the song is queued and saved when it returns. New
+// songs get their id here so the queued save and the cached copy agree.
+export async function saveSong(draft: SongDraft): Promise<string> {
+  try {
+    return await pushSong(draft);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    const queued = { ...draft, id: draft.id ?? crypto.randomUUID() };
+    const profile = await getUserProfile();
+    const key = libraryCacheKey(profile.church_id);
+    const songs = (await readCache<Song[]>(key)) ?? [];
+    await queueEdit({
+      kind: 'song',
+      recordId: queued.id,
+      label: queued.title,
+      baseUpdatedAt: songs.find(song => song.id === queued.id)?.updated_at ?? null,
+      payload: queued
+    });
+    await writeCache(key, applyDraft(songs, queued, profile));
+    return queued.id;
+  }
+}
+
+// Segments and arrangements are removed by ON DELETE CASCADE.
+export async function deleteSong(songId: string): Promise<void> {
+  const { error } = await supabase
+    .from('songs')
+    .delete()
+    .eq('id', songId);
+
+  if (error) throw error;
+}
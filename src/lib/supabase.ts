@@ -1,4 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { clearOfflineData, withOfflineCache } from './offline';
+import type { User } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -36,6 +38,7 @@ function createSupabaseClient() {
     if (event === 'SIGNED_OUT') {
       // Clear all local storage data on sign out
       localStorage.clear();
+      clearOfflineData().catch(console.error);
     } else if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') {
       if (!session?.access_token) {
         console.error('Invalid session detected');
@@ -90,4 +93,24 @@ export const refreshSession = async () => {
   if (error) throw error;
   if (!session) throw new Error('Failed to refresh session');
   return session;
-};
\ No newline at end of file
+};
+
+// Helper to load the signed-in user's profile row (church and role)
+export const getUserProfile = async (): Promise<Pick<User, 'id' | 'church_id' | 'role'>> => {
+  const session = await checkAuth();
+  const data = await withOfflineCache(`profile:${session.user.id}`, async () => {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, church_id, role')
+      .eq('id', session.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  });
+
+  if (!data?.church_id) {
+    throw new Error('No church associated with your account. Please complete registration.');
+  }
+  return data;
+};
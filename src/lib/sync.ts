@@ -0,0 +1,167 @@
+import { getUserProfile, supabase } from './supabase';
+import { pushSong, refreshLibraryCache } from './songs';
+import { loadService, loadServices, pushService, toDateString, type ServiceDraft } from './services';
+import { pushSongUsage, type SongUsageRecord } from './usage';
+import {
+  getOfflineStatus,
+  isOfflineError,
+  listPendingEdits,
+  onOfflineStatusChange,
+  refreshOfflineStatus,
+  removePendingEdit,
+  setOnline,
+  updateOfflineStatus,
+  updatePendingEdit,
+  type PendingEdit,
+  type PendingEditKind
+} from './offline';
+import type { SongDraft } from '../types';
+
+const SYNC_INTERVAL = 30000;
+
+const EDIT_TABLES: Record<PendingEditKind, string> = {
+  song: 'songs',
+  service: 'services',
+  usage: 'song_usage'
+};
+
+let running: Promise<void> | null = null;
+
+// The server's updated_at for the record, or null if it no longer exists
+async function getServerVersion(edit: PendingEdit): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(EDIT_TABLES[edit.kind])
+    .select('updated_at')
+    .eq('id', edit.recordId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.updated_at ?? null;
+}
+
+function isConflict(edit: PendingEdit, serverUpdatedAt: string | null): boolean {
+  // A record created offline has nothing on the server to conflict with
+  if (edit.baseUpdatedAt === null) return false;
+  if (serverUpdatedAt === null) return true;
+  return new Date(serverUpdatedAt).getTime() > new Date(edit.baseUpdatedAt).getTime();
+}
+
+function push(edit: PendingEdit): Promise<string> {
+  switch (edit.kind) {
+    case 'song':
+      return pushSong(edit.payload as SongDraft);
+    case 'service':
+      return pushService(edit.payload as ServiceDraft);
+    case 'usage':
+      return pushSongUsage(edit.payload as SongUsageRecord);
+  }
+}
+
+async function syncEdits(): Promise<void> {
+  const edits = (await listPendingEdits()).filter(edit => !edit.problem);
+  if (!edits.length) return;
+
+  updateOfflineStatus({ syncing: true });
+  try {
+    // In the order they were made, stopping if the connection drops again
+    for (const edit of edits) {
+      try {
+        // New records have no server version to check against
+        const serverUpdatedAt = edit.baseUpdatedAt === null ? null : await getServerVersion(edit);
+        if (isConflict(edit, serverUpdatedAt)) {
+          await updatePendingEdit({ ...edit, problem: { type: 'conflict', serverUpdatedAt } });
+          continue;
+        }
+        await push(edit);
+        await removePendingEdit(edit.id!);
+      } catch (error) {
+        if (isOfflineError(error)) throw error;
+        const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+        await updatePendingEdit({ ...edit, problem: { type: 'error', message: message ?? 'Save failed' } });
+      }
+    }
+    setOnline(true);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    setOnline(false);
+  } finally {
+    updateOfflineStatus({ syncing: false });
+    await refreshOfflineStatus();
+  }
+}
+
+// Only one sync runs at a time; a second request waits for the running one
+export function syncPendingEdits(): Promise<void> {
+  if (!running) {
+    running = syncEdits()
+      .catch(error => console.error('Error syncing offline edits:', error))
+      .finally(() => {
+        running = null;
+      });
+  }
+  return running;
+}
+
+// Saves the offline edit over the server's version
+export async function keepOfflineEdit(edit: PendingEdit): Promise<void> {
+  await push(edit);
+  await removePendingEdit(edit.id!);
+  await refreshOfflineStatus();
+}
+
+// Drops the offline edit; the server's version is loaded next time
+export async function discardOfflineEdit(edit: PendingEdit): Promise<void> {
+  await removePendingEdit(edit.id!);
+  await refreshOfflineStatus();
+}
+
+// Makes sure the next service (today's, on a Sunday) is in the cache before
+// anyone needs it offline
+async function cacheUpcomingService(): Promise<void> {
+  const today = toDateString(new Date());
+  const upcoming = (await loadServices())
+    .filter(service => service.service_date >= today)
+    .sort((a, b) => a.service_date.localeCompare(b.service_date))[0];
+  if (upcoming) await loadService(upcoming.id);
+}
+
+// The song library page only loads what it shows, so the whole library is
+// kept here for searching offline, refreshed with what changed since
+async function cacheLibrary(): Promise<void> {
+  const profile = await getUserProfile();
+  await refreshLibraryCache(profile.church_id);
+}
+
+// Syncs when the connection comes back and every so often while edits are
+// waiting, since the browser's online flag misses some outages
+export function startOfflineSync(): () => void {
+  const handleOnline = () => {
+    setOnline(true);
+    syncPendingEdits();
+  };
+  const handleOffline = () => setOnline(false);
+
+  let wasOnline = getOfflineStatus().online;
+  const removeStatusListener = onOfflineStatusChange(status => {
+    if (status.online && !wasOnline) syncPendingEdits();
+    wasOnline = status.online;
+  });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  const interval = window.setInterval(() => {
+    if (getOfflineStatus().pending > 0) syncPendingEdits();
+  }, SYNC_INTERVAL);
+
+  refreshOfflineStatus()
+    .then(() => syncPendingEdits())
+    .then(() => Promise.all([cacheUpcomingService(), cacheLibrary()]))
+    .catch(error => console.error('Error preparing offline cache:', error));
+
+  return () => {
+    removeStatusListener();
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    window.clearInterval(interval);
+  };
+}
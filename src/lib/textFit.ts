@@ -0,0 +1,181 @@
+import { STAGE_HEIGHT, STAGE_WIDTH } from './themes';
+import type { PresentationThemeSettings, Slide } from '../types';
+
+// Must match the classes SlideRenderer uses for titles and lyrics
+const BODY_LINE_HEIGHT = 1.625; // leading-relaxed
+const TITLE_SCALE = 1.2; // text-[1.2em]
+const TITLE_LINE_HEIGHT = 1.5; // inherited from the page
+const TITLE_GAP = 0.6; // mb-[0.6em], in title ems
+const SECONDARY_SCALE = 0.7; // text-[0.7em]
+const SECONDARY_GAP = 0.5; // mt-[0.5em], in secondary ems
+
+const MAX_CACHED_MEASUREMENTS = 5000;
+
+export interface TextBlock {
+  title?: string;
+  body: string;
+  // Shown under the body in a smaller size, e.g. a translation
+  secondary?: string;
+}
+
+let context: CanvasRenderingContext2D | null | undefined;
+const lineCounts = new Map<string, number>();
+
+function getContext(): CanvasRenderingContext2D | null {
+  if (context === undefined) {
+    context = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  return context;
+}
+
+function wrapLine(ctx: CanvasRenderingContext2D, line: string, width: number): number {
+  const words = line.split(/\s+/).filter(Boolean);
+  let lines = 1;
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && ctx.measureText(candidate).width > width) {
+      lines++;
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  return lines;
+}
+
+// How many lines the text takes when the browser wraps it: one per explicit
+// line break (blank ones included, as with whitespace-pre-line), plus any
+// word wrapping within them.
+function countLines(text: string, fontFamily: string, fontSize: number, bold: boolean, width: number): number {
+  const font = `${bold ? 'bold ' : ''}${fontSize}px ${fontFamily}`;
+  const key = `${font}|${width}|${text}`;
+  const cached = lineCounts.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  let count = 0;
+  for (const line of text.split('\n')) {
+    if (ctx) {
+      ctx.font = font;
+      count += wrapLine(ctx, line, width);
+    } else {
+      // Rough estimate where there's nothing to measure with
+      count += Math.max(1, Math.ceil((line.length * fontSize * 0.5) / width));
+    }
+  }
+
+  if (lineCounts.size >= MAX_CACHED_MEASUREMENTS) lineCounts.clear();
+  lineCounts.set(key, count);
+  return count;
+}
+
+export function safeArea(settings: PresentationThemeSettings): { width: number; height: number } {
+  return {
+    width: Math.max(STAGE_WIDTH - settings.margin * 2, 1),
+    height: Math.max(STAGE_HEIGHT - settings.margin * 2, 1)
+  };
+}
+
+function fits(block: TextBlock, settings: PresentationThemeSettings, fontSize: number): boolean {
+  const { width, height } = safeArea(settings);
+  let used = countLines(block.body, settings.font_family, fontSize, false, width) * fontSize * BODY_LINE_HEIGHT;
+  if (block.title) {
+    const titleSize = fontSize * TITLE_SCALE;
+    used += countLines(block.title, settings.font_family, titleSize, true, width) * titleSize * TITLE_LINE_HEIGHT;
+    used += titleSize * TITLE_GAP;
+  }
+  if (block.secondary) {
+    const secondarySize = fontSize * SECONDARY_SCALE;
+    used += countLines(block.secondary, settings.font_family, secondarySize, false, width) * secondarySize * BODY_LINE_HEIGHT;
+    used += secondarySize * SECONDARY_GAP;
+  }
+  return used <= height;
+}
+
+// The text a slide shows in its title and body, for the slide types that are
+// fitted to the screen
+export function getSlideTextBlock(slide: Slide | null): TextBlock | null {
+  switch (slide?.type) {
+    case 'song':
+      return { title: slide.song.title, body: slide.segment.content, secondary: slide.translation ?? undefined };
+    case 'text':
+      return { title: slide.title || undefined, body: slide.content };
+    default:
+      return null;
+  }
+}
+
+// The largest whole font size within the theme's bounds at which the block
+// fits, or the minimum when it doesn't fit at all
+export function fitFontSize(block: TextBlock, settings: PresentationThemeSettings): number {
+  if (!settings.auto_fit) return settings.font_size;
+
+  let low = settings.min_font_size;
+  let high = Math.max(settings.max_font_size, low);
+  if (!fits(block, settings, low)) return low;
+
+  while (low < high) {
+    const size = Math.ceil((low + high) / 2);
+    if (fits(block, settings, size)) low = size;
+    else high = size - 1;
+  }
+  return low;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Narrows the range so it neither starts nor ends on a blank line
+function trimBlankLines(lines: string[], { start, end }: LineRange): LineRange {
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return { start, end };
+}
+
+// Splits the body at line breaks into parts that each fit at the smallest size
+// the theme allows. Parts are kept close to the same length, so a long verse
+// becomes 4 + 4 lines rather than 7 + 1. A single line that is too long on its
+// own is left to overflow. Parts are returned as ranges of the body's lines,
+// so text that runs line for line alongside it can be split the same way;
+// the secondary text is taken to run line for line with the body.
+export function splitLineRanges(block: TextBlock, settings: PresentationThemeSettings): LineRange[] {
+  const fontSize = settings.auto_fit ? settings.min_font_size : settings.font_size;
+  const lines = block.body.split('\n');
+  const secondaryLines = block.secondary?.split('\n');
+  const rangeFits = ({ start, end }: LineRange) =>
+    fits({
+      title: block.title,
+      body: lines.slice(start, end).join('\n'),
+      secondary: secondaryLines?.slice(start, end).join('\n')
+    }, settings, fontSize);
+  if (rangeFits({ start: 0, end: lines.length })) return [{ start: 0, end: lines.length }];
+
+  const greedy: LineRange[] = [];
+  let current: LineRange = { start: 0, end: 0 };
+  for (let index = 0; index < lines.length; index++) {
+    if (current.end > current.start && !rangeFits({ start: current.start, end: index + 1 })) {
+      greedy.push(current);
+      current = { start: index, end: index };
+    }
+    current.end = index + 1;
+  }
+  if (current.end > current.start) greedy.push(current);
+
+  const perPart = Math.ceil(lines.length / greedy.length);
+  const even = greedy.map((_, index) => ({
+    start: index * perPart,
+    end: Math.min((index + 1) * perPart, lines.length)
+  }));
+  const parts = even.every(part => part.end > part.start && rangeFits(part)) ? even : greedy;
+
+  return parts.map(part => trimBlankLines(lines, part)).filter(part => part.end > part.start);
+}
+
+export function splitToFit(block: TextBlock, settings: PresentationThemeSettings): string[] {
+  const lines = block.body.split('\n');
+  return splitLineRanges(block, settings).map(({ start, end }) => lines.slice(start, end).join('\n'));
+}
@@ -0,0 +1,200 @@
+import type { CSSProperties } from 'react';
+import { supabase, getUserProfile } from './supabase';
+import { withOfflineCache } from './offline';
+import type { CreditSlide, PresentationTheme, PresentationThemeSettings, SlideTransition, WatermarkPosition } from '../types';
+
+// Slides are laid out on a fixed stage and scaled to fit each screen
+export const STAGE_WIDTH = 1920;
+export const STAGE_HEIGHT = 1080;
+
+// Matches the original hard-coded look: white text on black
+export const DEFAULT_THEME_SETTINGS: PresentationThemeSettings = {
+  background_type: 'color',
+  background_color: '#000000',
+  gradient_start: '#1e1b4b',
+  gradient_end: '#000000',
+  gradient_angle: 180,
+  background_image_url: null,
+  background_dim: 0.4,
+  font_family: 'system-ui, sans-serif',
+  font_size: 56,
+  auto_fit: true,
+  min_font_size: 32,
+  max_font_size: 88,
+  text_color: '#ffffff',
+  text_shadow: false,
+  text_outline: false,
+  text_align: 'center',
+  vertical_align: 'middle',
+  margin: 96,
+  show_watermark: false,
+  watermark_position: 'bottom-right',
+  transition: 'cut',
+  transition_duration: 500,
+  credit_slide: 'none'
+};
+
+export const SLIDE_TRANSITION_LABELS: Record<SlideTransition, string> = {
+  cut: 'Cut',
+  crossfade: 'Crossfade',
+  'fade-black': 'Fade through black'
+};
+
+export const CREDIT_SLIDE_LABELS: Record<CreditSlide, string> = {
+  none: 'Not shown',
+  first: 'First slide of the song',
+  last: 'Last slide of the song'
+};
+
+// Fonts available on projection machines without downloading anything
+export const THEME_FONTS: Array<{ label: string; value: string }> = [
+  { label: 'System Sans', value: 'system-ui, sans-serif' },
+  { label: 'Arial', value: 'Arial, Helvetica, sans-serif' },
+  { label: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
+  { label: 'Trebuchet', value: '"Trebuchet MS", sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Times', value: '"Times New Roman", Times, serif' },
+  { label: 'Palatino', value: '"Palatino Linotype", Palatino, serif' },
+  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif' }
+];
+
+const THEME_COLUMNS = 'id, church_id, name, settings, created_at, updated_at';
+
+// Themes saved before a setting existed pick up its default
+export function withDefaults(settings: Partial<PresentationThemeSettings> | null | undefined): PresentationThemeSettings {
+  return { ...DEFAULT_THEME_SETTINGS, ...(settings ?? {}) };
+}
+
+export function themeBackground(settings: PresentationThemeSettings): CSSProperties {
+  switch (settings.background_type) {
+    case 'gradient':
+      return {
+        background: `linear-gradient(${settings.gradient_angle}deg, ${settings.gradient_start}, ${settings.gradient_end})`
+      };
+    case 'image':
+      return settings.background_image_url
+        ? {
+            backgroundColor: settings.background_color,
+            backgroundImage: `url("${settings.background_image_url}")`,
+            backgroundSize: 'cover',
+            backgroundPosition: 'center'
+          }
+        : { backgroundColor: settings.background_color };
+    default:
+      return { backgroundColor: settings.background_color };
+  }
+}
+
+export function themeText(settings: PresentationThemeSettings): CSSProperties {
+  const shadows: string[] = [];
+  if (settings.text_outline) {
+    // Four offset copies read better at projector distance than -webkit-text-stroke,
+    // which eats into thin fonts
+    shadows.push('-2px -2px 0 #000', '2px -2px 0 #000', '-2px 2px 0 #000', '2px 2px 0 #000');
+  }
+  if (settings.text_shadow) {
+    shadows.push('0 4px 12px rgba(0, 0, 0, 0.8)');
+  }
+
+  return {
+    fontFamily: settings.font_family,
+    fontSize: settings.font_size,
+    color: settings.text_color,
+    textAlign: settings.text_align,
+    textShadow: shadows.length ? shadows.join(', ') : undefined
+  };
+}
+
+// The first theme that still exists wins, so list the most specific id first
+export function resolveTheme(
+  themes: PresentationTheme[],
+  themeIds: Array<string | null | undefined>
+): PresentationThemeSettings {
+  for (const themeId of themeIds) {
+    const theme = themeId ? themes.find(t => t.id === themeId) : undefined;
+    if (theme) return theme.settings;
+  }
+  return DEFAULT_THEME_SETTINGS;
+}
+
+// Names the theme an item falls back to when it has no override of its own
+export function inheritedThemeLabel(themes: PresentationTheme[], songThemeId?: string | null): string {
+  const songTheme = songThemeId ? themes.find(t => t.id === songThemeId) : undefined;
+  return songTheme ? `Song theme (${songTheme.name})` : 'Church default theme';
+}
+
+export const WATERMARK_POSITIONS: Record<WatermarkPosition, CSSProperties> = {
+  'top-left': { top: 48, left: 48 },
+  'top-right': { top: 48, right: 48 },
+  'bottom-left': { bottom: 48, left: 48 },
+  'bottom-right': { bottom: 48, right: 48 }
+};
+
+export async function loadThemes(): Promise<PresentationTheme[]> {
+  const profile = await getUserProfile();
+  return withOfflineCache(`themes:${profile.church_id}`, async () => {
+    const { data, error } = await supabase
+      .from('presentation_themes')
+      .select(THEME_COLUMNS)
+      .order('name');
+
+    if (error) throw error;
+    return (data ?? []).map(theme => ({ ...theme, settings: withDefaults(theme.settings) }));
+  });
+}
+
+export async function saveTheme(theme: Pick<PresentationTheme, 'name' | 'settings'> & { id?: string }): Promise<PresentationTheme> {
+  const query = theme.id
+    ? supabase.from('presentation_themes').update({ name: theme.name, settings: theme.settings }).eq('id', theme.id)
+    : supabase.from('presentation_themes').insert([{
+        name: theme.name,
+        settings: theme.settings,
+        church_id: (await getUserProfile()).church_id
+      }]);
+
+  const { data, error } = await query.select(THEME_COLUMNS).single();
+  if (error) throw error;
+  return { ...data, settings: withDefaults(data.settings) };
+}
+
+export async function deleteTheme(themeId: string): Promise<void> {
+  const { error } = await supabase
+    .from('presentation_themes')
+    .delete()
+    .eq('id', themeId);
+
+  if (error) throw error;
+}
+
+export async function setDefaultTheme(churchId: string, themeId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('churches')
+    .update({ default_theme_id: themeId })
+    .eq('id', churchId);
+
+  if (error) throw error;
+}
+
+// The logo and themes the control panel needs to style each item
+export async function loadChurchPresentation(): Promise<{
+  logoUrl: string | null;
+  defaultThemeId: string | null;
+  themes: PresentationTheme[];
+}> {
+  const profile = await getUserProfile();
+  const church = await withOfflineCache(`church-presentation:${profile.church_id}`, async () => {
+    const { data, error } = await supabase
+      .from('churches')
+      .select('logo_url, default_theme_id')
+      .eq('id', profile.church_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  });
+  return {
+    logoUrl: church?.logo_url ?? null,
+    defaultThemeId: church?.default_theme_id ?? null,
+    themes: await loadThemes()
+  };
+}
@@ -0,0 +1,61 @@
+import type { LanguageMode, SlideLanguages, Song, SongSegment } from '../types';
+
+const STORAGE_KEY = 'slideLanguages';
+
+export const DEFAULT_SLIDE_LANGUAGES: SlideLanguages = { mode: 'original', translation: null };
+
+export const LANGUAGE_MODE_LABELS: Record<LanguageMode, string> = {
+  original: 'Original only',
+  bilingual: 'Both languages',
+  translation: 'Translation only'
+};
+
+const LANGUAGE_MODES = Object.keys(LANGUAGE_MODE_LABELS) as LanguageMode[];
+
+// The mode the keyboard shortcut switches to, going round all three
+export function nextLanguageMode(mode: LanguageMode): LanguageMode {
+  return LANGUAGE_MODES[(LANGUAGE_MODES.indexOf(mode) + 1) % LANGUAGE_MODES.length];
+}
+
+// Kept between sessions, as a church that sings in two languages usually
+// does so every week
+export function loadSlideLanguages(): SlideLanguages {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return { ...DEFAULT_SLIDE_LANGUAGES, ...(stored ?? {}) };
+  } catch {
+    return DEFAULT_SLIDE_LANGUAGES;
+  }
+}
+
+export function saveSlideLanguages(languages: SlideLanguages): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(languages));
+}
+
+// Languages any of the segments are translated into, in the order first seen
+export function getTranslationLanguages(segments: Array<Pick<SongSegment, 'translations'>>): string[] {
+  const languages = segments.flatMap(segment =>
+    Object.entries(segment.translations ?? {})
+      .filter(([, text]) => text.trim())
+      .map(([language]) => language)
+  );
+  return [...new Set(languages)];
+}
+
+// The translation a song's slides use: the one chosen in the control panel
+// when the song has it, otherwise the song's first
+export function getTranslationLanguage(song: Pick<Song, 'segments'>, preferred: string | null): string | null {
+  const languages = getTranslationLanguages(song.segments);
+  return preferred && languages.includes(preferred) ? preferred : languages[0] ?? null;
+}
+
+// Only translations with some text in them are stored. Backups are read
+// through here too, so anything that isn't text is dropped.
+export function cleanTranslations(translations: Record<string, string> | undefined): Record<string, string> {
+  if (!translations || typeof translations !== 'object' || Array.isArray(translations)) return {};
+  return Object.fromEntries(
+    Object.entries(translations)
+      .filter(([language, text]) => /^[a-z]{2}$/.test(language) && typeof text === 'string' && text.trim())
+      .map(([language, text]) => [language, text.replace(/\s+$/, '')])
+  );
+}
@@ -0,0 +1,211 @@
+import { socketService } from './socket';
+import { localChannelService } from './localChannel';
+import type { ConnectedOutput, OutputRole } from '../types';
+
+const SERVER_RETRY_INTERVAL = 15000;
+
+export type UpdateHandler = (data: Record<string, unknown>) => void;
+export type ConnectionHandler = () => void;
+
+// How the control panel and its displays reach each other
+export interface PresentationTransport {
+  connect(): Promise<void>;
+  disconnect(): void;
+  registerPresentation(role?: OutputRole): Promise<void>;
+  registerControl(): Promise<void>;
+  sendUpdate(data: Record<string, unknown>): Promise<void>;
+  onUpdate(handler: UpdateHandler): () => void;
+  onDisconnect(handler: ConnectionHandler): () => void;
+  onReconnect(handler: ConnectionHandler): () => void;
+  onOutputs(handler: (outputs: ConnectedOutput[]) => void): () => void;
+  isConnected(): boolean;
+  getId(): string | null;
+}
+
+// Tabs in the same browser talk over the local channel, so the control panel
+// and its displays work without the presentation server. The server is used
+// as well whenever it can be reached, for displays on other machines; a
+// display getting both copies of an update applies it once, by its updateId.
+// Browsers without BroadcastChannel use the server alone.
+class AutoTransport implements PresentationTransport {
+  private connected = false;
+  // Repeated whenever the server connection (re)opens
+  private serverRegistration: (() => Promise<void>) | null = null;
+  private serverRegistering: Promise<void> | null = null;
+  private retryTimer: number | null = null;
+  private localOutputs: ConnectedOutput[] = [];
+  private serverOutputs: ConnectedOutput[] = [];
+  private disconnectHandlers: Set<ConnectionHandler> = new Set();
+  private reconnectHandlers: Set<ConnectionHandler> = new Set();
+  private outputsHandlers: Set<(outputs: ConnectedOutput[]) => void> = new Set();
+
+  constructor() {
+    socketService.onReconnect(() => {
+      this.registerOnServer();
+      this.updateConnected();
+    });
+    socketService.onDisconnect(() => {
+      this.serverOutputs = [];
+      this.emitOutputs();
+      this.updateConnected();
+    });
+    socketService.onOutputs(outputs => {
+      this.serverOutputs = outputs;
+      this.emitOutputs();
+    });
+    localChannelService.onReconnect(() => this.updateConnected());
+    localChannelService.onDisconnect(() => this.updateConnected());
+    localChannelService.onOutputs(outputs => {
+      this.localOutputs = outputs;
+      this.emitOutputs();
+    });
+  }
+
+  private get hasLocalChannel(): boolean {
+    return localChannelService.isAvailable();
+  }
+
+  // The server is tried in the background, as it may take a while to fail
+  public async connect(): Promise<void> {
+    if (!this.hasLocalChannel) return socketService.connect();
+    await localChannelService.connect();
+    this.tryServer(() => socketService.connect());
+    this.updateConnected();
+  }
+
+  public disconnect(): void {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.serverRegistration = null;
+    this.connected = false;
+    localChannelService.disconnect();
+    socketService.disconnect();
+  }
+
+  public async registerPresentation(role: OutputRole = 'main'): Promise<void> {
+    await this.register(
+      () => localChannelService.registerPresentation(role),
+      // The same id on both, so the control panel lists the display once
+      () => socketService.registerPresentation(role, localChannelService.getId())
+    );
+  }
+
+  public async registerControl(): Promise<void> {
+    await this.register(
+      () => localChannelService.registerControl(),
+      async () => {
+        await socketService.registerControl();
+        // Catch the server up on anything shown while it was out of reach
+        const state = localChannelService.getState();
+        if (Object.keys(state).length) {
+          await socketService.sendUpdate(state);
+        }
+      }
+    );
+  }
+
+  // Only sent to the server while it's connected; it's caught up on
+  // reconnecting
+  public async sendUpdate(data: Record<string, unknown>): Promise<void> {
+    if (!this.hasLocalChannel) return socketService.sendUpdate(data);
+    await localChannelService.sendUpdate(data);
+    if (socketService.isConnected()) {
+      await socketService.sendUpdate(data);
+    }
+  }
+
+  public onUpdate(handler: UpdateHandler): () => void {
+    const removeSocketHandler = socketService.onUpdate(handler);
+    const removeLocalHandler = localChannelService.onUpdate(handler);
+    return () => {
+      removeSocketHandler();
+      removeLocalHandler();
+    };
+  }
+
+  public onDisconnect(handler: ConnectionHandler): () => void {
+    this.disconnectHandlers.add(handler);
+    return () => this.disconnectHandlers.delete(handler);
+  }
+
+  public onReconnect(handler: ConnectionHandler): () => void {
+    this.reconnectHandlers.add(handler);
+    return () => this.reconnectHandlers.delete(handler);
+  }
+
+  public onOutputs(handler: (outputs: ConnectedOutput[]) => void): () => void {
+    this.outputsHandlers.add(handler);
+    return () => this.outputsHandlers.delete(handler);
+  }
+
+  public isConnected(): boolean {
+    return socketService.isConnected() || localChannelService.isConnected();
+  }
+
+  public getId(): string | null {
+    return this.hasLocalChannel ? localChannelService.getId() : socketService.getId();
+  }
+
+  private async register(registerLocally: () => Promise<void>, registerOnServer: () => Promise<void>): Promise<void> {
+    this.serverRegistration = registerOnServer;
+    if (!this.hasLocalChannel) return registerOnServer();
+
+    await registerLocally();
+    this.registerOnServer();
+    this.updateConnected();
+  }
+
+  private registerOnServer(): Promise<void> {
+    const registration = this.serverRegistration;
+    if (!registration || !this.hasLocalChannel) return Promise.resolve();
+    if (!this.serverRegistering) {
+      this.serverRegistering = this.tryServer(registration).finally(() => {
+        this.serverRegistering = null;
+      });
+    }
+    return this.serverRegistering;
+  }
+
+  // Server failures are logged rather than thrown while the local channel
+  // keeps things running, and the server is tried again later
+  private async tryServer(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      if (socketService.isConnected()) {
+        console.error('Presentation server error:', error);
+        return;
+      }
+      console.warn('Presentation server unavailable, connecting windows in this browser only:', error);
+      this.scheduleServerRetry();
+    }
+  }
+
+  private scheduleServerRetry(): void {
+    if (this.retryTimer !== null || !this.serverRegistration) return;
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      if (!socketService.isConnected()) this.registerOnServer();
+    }, SERVER_RETRY_INTERVAL);
+  }
+
+  private updateConnected(): void {
+    const connected = this.isConnected();
+    if (connected === this.connected) return;
+    this.connected = connected;
+    (connected ? this.reconnectHandlers : this.disconnectHandlers).forEach(handler => handler());
+  }
+
+  private emitOutputs(): void {
+    const localIds = new Set(this.localOutputs.map(output => output.id));
+    const outputs = [
+      ...this.localOutputs,
+      ...this.serverOutputs.filter(output => !localIds.has(output.id))
+    ];
+    this.outputsHandlers.forEach(handler => handler(outputs));
+  }
+}
+
+export const presentationTransport: PresentationTransport = new AutoTransport();
@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { isOfflineError, queueEdit } from './offline';
+import { toDateString } from './services';
+import type { Service, Song } from '../types';
+
+// A row of song_usage. The song's details are copied in so the history
+// survives the song being edited or deleted.
+export interface SongUsageRecord {
+  id: string;
+  church_id: string;
+  song_id: string;
+  service_id: string | null;
+  used_on: string;
+  song_title: string;
+  song_author: string;
+  copyright: string | null;
+  ccli_number: string | null;
+}
+
+export interface SongUsageSummary {
+  song_id: string | null;
+  title: string;
+  author: string;
+  copyright: string | null;
+  ccli_number: string | null;
+  // Services the song was sung in; a day without a service counts as one
+  uses: number;
+  // Every time it went live, including going back to it
+  times_shown: number;
+  last_used: string;
+}
+
+// The record's id is set here, so sending it again after an outage doesn't
+// count the song twice
+export async function pushSongUsage(record: SongUsageRecord): Promise<string> {
+  const { error } = await supabase
+    .from('song_usage')
+    .upsert(record, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return record.id;
+}
+
+// Called by the presentation store when a song first reaches a connected
+// display. Without a connection the record waits in the outbox with other
+// offline edits.
+export async function recordSongUsage(song: Song, service: Service | null): Promise<void> {
+  const record: SongUsageRecord = {
+    id: crypto.randomUUID(),
+    church_id: song.church_id,
+    song_id: song.id,
+    service_id: service?.id ?? null,
+    used_on: toDateString(new Date()),
+    song_title: song.title,
+    song_author: song.author,
+    copyright: song.copyright ?? null,
+    ccli_number: song.ccli_number ?? null
+  };
+
+  try {
+    await pushSongUsage(record);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    await queueEdit({
+      kind: 'usage',
+      recordId: record.id,
+      label: song.title,
+      baseUpdatedAt: null,
+      payload: record
+    });
+  }
+}
+
+export async function loadUsageReport(from: string, to: string): Promise<SongUsageSummary[]> {
+  const { data, error } = await supabase.rpc('song_usage_report', { p_from: from, p_to: to });
+
+  if (error) throw error;
+  return ((data ?? []) as SongUsageSummary[]).map(row => ({
+    ...row,
+    uses: Number(row.uses),
+    times_shown: Number(row.times_shown)
+  }));
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One line per song, in the columns CCLI's song usage reporting asks for.
+// Songs without a CCLI number are left out, as they can't be reported.
+export function usageReportToCsv(rows: SongUsageSummary[]): string {
+  const header = ['CCLI Song Number', 'Song Title', 'Author', 'Copyright', 'Times Used'];
+  const lines = rows
+    .filter(row => row.ccli_number)
+    .map(row => [row.ccli_number, row.title, row.author, row.copyright, row.uses].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
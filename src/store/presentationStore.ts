@@ -1,55 +1,466 @@
 import { create } from 'zustand';
-import { socketService } from '../lib/socket';
-import type { Song, SongSegment } from '../types';
+import { presentationTransport } from '../lib/transport';
+import { getItemSlides } from '../lib/slides';
+import { saveService, toQueueItems } from '../lib/services';
+import { handleSupabaseError } from '../lib/supabase';
+import { recordSongUsage } from '../lib/usage';
+import { DEFAULT_THEME_SETTINGS, resolveTheme } from '../lib/themes';
+import { DEFAULT_LINE_DISPLAYS, getLineCursor, getSlideLines, lastLineStart } from '../lib/lineStepping';
+import { DEFAULT_SLIDE_LANGUAGES } from '../lib/translations';
+import type {
+  ConnectedOutput,
+  DisplayOverlay,
+  LineDisplay,
+  OutputRole,
+  PresentationTheme,
+  PresentationThemeSettings,
+  QueueItem,
+  SegmentType,
+  Service,
+  ServiceWithItems,
+  Slide,
+  SlideLanguages,
+  Song
+} from '../types';
+
+const ACTIVE_SERVICE_KEY = 'activeServiceId';
 
 interface PresentationState {
-  currentSong: Song | null;
-  currentSegment: SongSegment | null;
-  queue: Song[];
+  currentSlide: Slide | null;
+  currentItemId: string | null;
+  // Position within the current item's slides. A song's arrangement can
+  // repeat a segment, so the slide alone doesn't identify the position.
+  currentIndex: number;
+  // Lines moved by next and previous within a slide; 0 moves whole slides
+  lineStep: number;
+  // First of the live lines, among the slide's non-blank lines
+  lineCursor: number;
+  lineDisplays: Record<OutputRole, LineDisplay>;
+  // Whether songs with a translation show it, on its own or under the lyrics
+  languages: SlideLanguages;
+  // Church logo shown by blank "logo" items
+  logoUrl: string | null;
+  // The live item's theme: its own override, else its song's, else the church default
+  theme: PresentationThemeSettings;
+  themes: PresentationTheme[];
+  defaultThemeId: string | null;
+  overlay: DisplayOverlay | null;
+  // Shown to the band on the stage display only
+  stageMessage: string;
+  queue: QueueItem[];
+  // When a saved service is loaded, queue edits are written back to it
+  activeService: Service | null;
+  // Why the last attempt to write the queue back failed, until one succeeds
+  queueSaveError: string | null;
   isPresenting: boolean;
+  // Displays connected to this church's control room
+  outputs: ConnectedOutput[];
   presentationWindow: Window | null;
-  setCurrentSong: (song: Song | null) => void;
-  setCurrentSegment: (segment: SongSegment | null) => void;
-  addToQueue: (song: Song) => void;
-  removeFromQueue: (songId: string) => void;
+  showSlide: (slide: Slide | null, lineCursor?: number) => void;
+  selectQueueItem: (itemId: string, index?: number, lineCursor?: number) => void;
+  goToSlide: (index: number, lineCursor?: number) => void;
+  nextSlide: () => void;
+  previousSlide: () => void;
+  nextSegmentOfType: (type: SegmentType) => void;
+  goToSegment: (position: number) => void;
+  setLineStep: (step: number) => void;
+  setLineCursor: (start: number) => void;
+  setLineDisplays: (displays: Record<OutputRole, LineDisplay>) => void;
+  setLanguages: (languages: SlideLanguages) => void;
+  // fade asks displays to fade slowly rather than use the theme's transition
+  toggleOverlay: (overlay: DisplayOverlay, fade?: boolean) => void;
+  setStageMessage: (message: string) => void;
+  addToQueue: (song: Song, arrangementId?: string | null) => void;
+  addQueueItem: (item: QueueItem) => void;
+  updateQueueItem: (item: QueueItem) => void;
+  removeFromQueue: (itemId: string) => void;
+  setQueueItemArrangement: (itemId: string, arrangementId: string | null) => void;
+  setQueueItemTheme: (itemId: string, themeId: string | null) => void;
+  loadService: (service: ServiceWithItems) => void;
+  unloadService: () => void;
+  retryQueueSave: () => void;
+  setLogoUrl: (logoUrl: string | null) => void;
+  setThemes: (themes: PresentationTheme[], defaultThemeId: string | null) => void;
+  refreshTheme: () => void;
   setIsPresenting: (presenting: boolean) => void;
+  setOutputs: (outputs: ConnectedOutput[]) => void;
   setPresentationWindow: (window: Window | null) => void;
 }
 
+export function getCurrentItem(state: Pick<PresentationState, 'queue' | 'currentItemId'>): QueueItem | null {
+  return state.queue.find(item => item.id === state.currentItemId) ?? null;
+}
+
+export function getItemTheme(
+  state: Pick<PresentationState, 'themes' | 'defaultThemeId'>,
+  item: QueueItem | null
+): PresentationThemeSettings {
+  return resolveTheme(state.themes, [
+    item?.themeId,
+    item?.type === 'song' ? item.song.theme_id : null,
+    state.defaultThemeId
+  ]);
+}
+
+// Slides are split to fit each item's theme and the languages shown
+export function getThemedSlides(
+  state: Pick<PresentationState, 'themes' | 'defaultThemeId' | 'languages'>,
+  item: QueueItem | null
+): Slide[] {
+  return getItemSlides(item, getItemTheme(state, item), state.languages);
+}
+
+// The slide that "next" would show, which may be the start of the next item
+export function getNextSlide(
+  state: Pick<PresentationState, 'queue' | 'currentItemId' | 'currentIndex' | 'themes' | 'defaultThemeId' | 'languages'>
+): { item: QueueItem; slide: Slide } | null {
+  const current = getCurrentItem(state);
+  if (current) {
+    const slide = getThemedSlides(state, current)[state.currentIndex + 1];
+    if (slide) return { item: current, slide };
+  }
+
+  const following = state.queue.slice(current ? state.queue.indexOf(current) + 1 : 0);
+  for (const item of following) {
+    const [slide] = getThemedSlides(state, item);
+    if (slide) return { item, slide };
+  }
+  return null;
+}
+
+export function getStoredServiceId(): string | null {
+  return localStorage.getItem(ACTIVE_SERVICE_KEY);
+}
+
+// Displays are updated in the background; a failure (e.g. a viewer's panel,
+// which the server won't accept updates from) is logged rather than thrown.
+// Displays in this browser may get an update both directly and through the
+// server; the id lets them apply it once.
+function broadcast(update: Record<string, unknown>) {
+  presentationTransport
+    .sendUpdate({ ...update, updateId: crypto.randomUUID() })
+    .catch(error => console.error('Error updating displays:', error));
+}
+
+function getUpNextSlide(state: Parameters<typeof getNextSlide>[0]): Slide | null {
+  return getNextSlide(state)?.slide ?? null;
+}
+
+// The stage display shows what's coming, which changes with the queue as
+// well as with the live slide
+function broadcastUpNext(state: Parameters<typeof getNextSlide>[0]) {
+  broadcast({ upNext: getUpNextSlide(state) });
+}
+
+// Saves run one at a time, so a quick run of edits can't land out of
+// order. Edits made while a save is running are saved together after it,
+// with the queue as it is by then.
+let queueSaving: Promise<void> = Promise.resolve();
+let nextQueueSave: { service: Service; queue: QueueItem[] } | null = null;
+
+function persistQueue(service: Service | null, queue: QueueItem[]) {
+  if (!service) return;
+  const waiting = nextQueueSave !== null;
+  nextQueueSave = { service, queue };
+  if (waiting) return;
+
+  queueSaving = queueSaving.then(async () => {
+    const save = nextQueueSave;
+    nextQueueSave = null;
+    if (!save) return;
+    try {
+      await saveService({
+        id: save.service.id,
+        name: save.service.name,
+        service_date: save.service.service_date,
+        items: save.queue
+      });
+      usePresentationStore.setState({ queueSaveError: null });
+    } catch (error) {
+      console.error('Error saving service queue:', error);
+      // Only worth reporting while that service is still the one loaded
+      if (usePresentationStore.getState().activeService?.id === save.service.id) {
+        usePresentationStore.setState({ queueSaveError: handleSupabaseError(error) });
+      }
+    }
+  });
+}
+
+// The queue item whose song has been recorded since it was selected
+let usageRecordedItemId: string | null = null;
+
+// Songs are recorded for licence reporting when they reach a screen: the
+// first time one of their slides is shown while a display is connected.
+// Clicking through a song in rehearsal with nothing connected isn't a use.
+// Called whenever a slide is shown and whenever displays connect; records
+// in the background like saving the queue.
+function logSongUsage(state: PresentationState) {
+  const item = getCurrentItem(state);
+  if (item?.type !== 'song' || !state.currentSlide || item.id === usageRecordedItemId) return;
+  if (state.outputs.length === 0 && !state.isPresenting) return;
+
+  usageRecordedItemId = item.id;
+  recordSongUsage(item.song, state.activeService)
+    .catch(error => console.error('Error recording song usage:', error));
+}
+
 export const usePresentationStore = create<PresentationState>((set, get) => ({
-  currentSong: null,
-  currentSegment: null,
+  currentSlide: null,
+  currentItemId: null,
+  currentIndex: 0,
+  lineStep: 0,
+  lineCursor: 0,
+  lineDisplays: DEFAULT_LINE_DISPLAYS,
+  languages: DEFAULT_SLIDE_LANGUAGES,
+  logoUrl: null,
+  theme: DEFAULT_THEME_SETTINGS,
+  themes: [],
+  defaultThemeId: null,
+  overlay: null,
+  stageMessage: '',
   queue: [],
+  activeService: null,
+  queueSaveError: null,
   isPresenting: false,
+  outputs: [],
   presentationWindow: null,
-  setCurrentSong: (song) => {
-    set({ currentSong: song });
-    socketService.sendUpdate({ song });
-  },
-  setCurrentSegment: (segment) => {
-    set({ currentSegment: segment });
-    socketService.sendUpdate({ segment });
-  },
-  addToQueue: (song) => set((state) => {
-    if (state.queue.some(s => s.id === song.id)) {
-      return state;
-    }
-    return { queue: [...state.queue, song] };
-  }),
-  removeFromQueue: (songId) =>
-    set((state) => {
-      const newState = {
-        queue: state.queue.filter((s) => s.id !== songId),
-      };
-      
-      if (state.currentSong?.id === songId) {
-        newState.currentSong = null;
-        newState.currentSegment = null;
-        socketService.sendUpdate({ song: null, segment: null });
-      }
-      
-      return newState;
-    }),
-  setIsPresenting: (presenting) => set({ isPresenting: presenting }),
+  showSlide: (slide, lineCursor = 0) => {
+    // Going to a slide brings the display back from black, clear or logo
+    const theme = getItemTheme(get(), getCurrentItem(get()));
+    set({ currentSlide: slide, lineCursor, theme, overlay: null });
+    logSongUsage(get());
+    broadcast({
+      slide,
+      lines: getLineCursor(slide, get().lineStep, lineCursor),
+      upNext: getUpNextSlide(get()),
+      theme,
+      overlay: null
+    });
+  },
+  selectQueueItem: (itemId, index = 0, lineCursor = 0) => {
+    const item = get().queue.find(i => i.id === itemId);
+    if (!item) return;
+
+    // Re-selecting the live item (e.g. after editing it) isn't a new use
+    if (item.id !== get().currentItemId) usageRecordedItemId = null;
+    set({ currentItemId: item.id, currentIndex: index });
+    get().showSlide(getThemedSlides(get(), item)[index] ?? null, lineCursor);
+  },
+  goToSlide: (index, lineCursor = 0) => {
+    const slides = getThemedSlides(get(), getCurrentItem(get()));
+    if (index < 0 || index >= slides.length) return;
+
+    set({ currentIndex: index });
+    get().showSlide(slides[index], lineCursor);
+  },
+  // Stepping past either end of a slide's lines, or of an item, continues
+  // into the neighbouring one
+  nextSlide: () => {
+    const { queue, currentIndex, currentSlide, lineStep, lineCursor } = get();
+    if (lineStep && lineCursor + lineStep < getSlideLines(currentSlide).length) {
+      get().setLineCursor(lineCursor + lineStep);
+      return;
+    }
+
+    const current = getCurrentItem(get());
+    if (current && currentIndex < getThemedSlides(get(), current).length - 1) {
+      get().goToSlide(currentIndex + 1);
+      return;
+    }
+
+    const next = queue[current ? queue.indexOf(current) + 1 : 0];
+    if (next) get().selectQueueItem(next.id);
+  },
+  previousSlide: () => {
+    const { queue, currentIndex, lineStep, lineCursor } = get();
+    const current = getCurrentItem(get());
+    if (!current) return;
+    if (lineStep && lineCursor > 0) {
+      get().setLineCursor(Math.max(lineCursor - lineStep, 0));
+      return;
+    }
+
+    // Stepping back into a slide lands on its last lines
+    if (currentIndex > 0) {
+      const slide = getThemedSlides(get(), current)[currentIndex - 1];
+      get().goToSlide(currentIndex - 1, lastLineStart(slide, lineStep));
+      return;
+    }
+
+    const previous = queue[queue.indexOf(current) - 1];
+    if (previous) {
+      const slides = getThemedSlides(get(), previous);
+      const index = Math.max(slides.length - 1, 0);
+      get().selectQueueItem(previous.id, index, lastLineStart(slides[index] ?? null, lineStep));
+    }
+  },
+  nextSegmentOfType: (type) => {
+    const slides = getThemedSlides(get(), getCurrentItem(get()));
+    const { currentIndex } = get();
+    // Lands on the first part of a split segment
+    const matches = (index: number) => {
+      const slide = slides[index];
+      return slide?.type === 'song' && slide.segment.type === type && slide.part === 0;
+    };
+
+    // The next one after the current slide, wrapping round to the first
+    const order = [...slides.keys()].map(i => (currentIndex + 1 + i) % slides.length);
+    const index = order.find(matches);
+    if (index !== undefined) get().goToSlide(index);
+  },
+  goToSegment: (position) => {
+    const slides = getThemedSlides(get(), getCurrentItem(get()));
+    // A segment split over several slides counts once, from its first part;
+    // items without segments count each slide
+    const starts = [...slides.keys()].filter(index => {
+      const slide = slides[index];
+      return slide.type !== 'song' || slide.part === 0;
+    });
+    const index = starts[position];
+    if (index !== undefined) get().goToSlide(index);
+  },
+  setLineStep: (step) => {
+    set({ lineStep: step, lineCursor: 0 });
+    broadcast({ lines: getLineCursor(get().currentSlide, step, 0) });
+  },
+  setLineCursor: (start) => {
+    const { currentSlide, lineStep, overlay } = get();
+    const lines = getLineCursor(currentSlide, lineStep, start);
+    if (!lines) return;
+
+    // Like going to a slide, moving the cursor brings the display back
+    set({ lineCursor: lines.start, overlay: null });
+    broadcast(overlay ? { lines, overlay: null } : { lines });
+  },
+  setLineDisplays: (displays) => {
+    set({ lineDisplays: displays });
+    broadcast({ lineDisplays: displays });
+  },
+  // Showing a translation can split the live song differently, so its
+  // slide is refreshed as with a new theme
+  setLanguages: (languages) => {
+    set({ languages });
+    get().refreshTheme();
+  },
+  toggleOverlay: (overlay, fade = false) => {
+    const updated = get().overlay === overlay ? null : overlay;
+    set({ overlay: updated });
+    broadcast({ overlay: updated, fade });
+  },
+  setStageMessage: (message) => {
+    set({ stageMessage: message });
+    broadcast({ stageMessage: message });
+  },
+  addToQueue: (song, arrangementId = null) => {
+    if (get().queue.some(item => item.type === 'song' && item.song.id === song.id)) return;
+    get().addQueueItem({ id: crypto.randomUUID(), type: 'song', song, arrangementId });
+  },
+  addQueueItem: (item) => {
+    const updated = [...get().queue, item];
+    set({ queue: updated });
+    persistQueue(get().activeService, updated);
+    broadcastUpNext(get());
+  },
+  updateQueueItem: (item) => {
+    const updated = get().queue.map(i => (i.id === item.id ? item : i));
+    set({ queue: updated });
+    persistQueue(get().activeService, updated);
+    broadcastUpNext(get());
+
+    // Refresh the display if the edited item is live
+    if (get().currentItemId === item.id) {
+      get().selectQueueItem(item.id);
+    }
+  },
+  removeFromQueue: (itemId) => {
+    const { queue, currentItemId, activeService } = get();
+    const updated = queue.filter(item => item.id !== itemId);
+    set({ queue: updated });
+    persistQueue(activeService, updated);
+    broadcastUpNext(get());
+
+    if (currentItemId === itemId) {
+      set({ currentItemId: null, currentIndex: 0 });
+      get().showSlide(null);
+    }
+  },
+  setQueueItemArrangement: (itemId, arrangementId) => {
+    const updated = get().queue.map(item => (
+      item.id === itemId && item.type === 'song' ? { ...item, arrangementId } : item
+    ));
+    set({ queue: updated });
+    persistQueue(get().activeService, updated);
+    broadcastUpNext(get());
+
+    // Restart the live item so the grid and display follow the new order
+    if (get().currentItemId === itemId) {
+      get().selectQueueItem(itemId);
+    }
+  },
+  setQueueItemTheme: (itemId, themeId) => {
+    const updated = get().queue.map(item => (item.id === itemId ? { ...item, themeId } : item));
+    set({ queue: updated });
+    persistQueue(get().activeService, updated);
+    broadcastUpNext(get());
+
+    if (get().currentItemId === itemId) {
+      get().refreshTheme();
+    }
+  },
+  loadService: (service) => {
+    const { id, church_id, name, service_date, created_by, created_at, updated_at } = service;
+    localStorage.setItem(ACTIVE_SERVICE_KEY, id);
+    set({
+      activeService: { id, church_id, name, service_date, created_by, created_at, updated_at },
+      queue: toQueueItems(service),
+      queueSaveError: null,
+      currentItemId: null,
+      currentIndex: 0
+    });
+    broadcastUpNext(get());
+  },
+  unloadService: () => {
+    localStorage.removeItem(ACTIVE_SERVICE_KEY);
+    set({ activeService: null, queue: [], queueSaveError: null, currentItemId: null, currentIndex: 0 });
+    broadcast({ upNext: null });
+  },
+  retryQueueSave: () => {
+    persistQueue(get().activeService, get().queue);
+  },
+  setLogoUrl: (logoUrl) => {
+    set({ logoUrl });
+    broadcast({ logoUrl });
+  },
+  setThemes: (themes, defaultThemeId) => {
+    set({ themes, defaultThemeId });
+    get().refreshTheme();
+  },
+  // A new theme can split the live item differently, so its slide is
+  // refreshed too, keeping the place as near as possible
+  refreshTheme: () => {
+    const item = getCurrentItem(get());
+    const theme = getItemTheme(get(), item);
+    if (!item) {
+      set({ theme });
+      broadcast({ theme, upNext: getUpNextSlide(get()) });
+      return;
+    }
+
+    const slides = getItemSlides(item, theme, get().languages);
+    const currentIndex = Math.min(get().currentIndex, Math.max(slides.length - 1, 0));
+    const currentSlide = slides[currentIndex] ?? null;
+    const lines = getLineCursor(currentSlide, get().lineStep, get().lineCursor);
+    set({ theme, currentIndex, currentSlide, lineCursor: lines?.start ?? 0 });
+    broadcast({ slide: currentSlide, lines, upNext: getUpNextSlide(get()), theme });
+  },
+  setIsPresenting: (presenting) => {
+    set({ isPresenting: presenting });
+    logSongUsage(get());
+  },
+  // A song already live counts once a display connects to show it
+  setOutputs: (outputs) => {
+    set({ outputs });
+    logSongUsage(get());
+  },
   setPresentationWindow: (window) => set({ presentationWindow: window })
-}));
\ No newline at end of file
+}));
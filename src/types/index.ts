@@ -1,8 +1,10 @@
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
 export interface User {
   id: string;
   email: string;
-  churchId: string;
-  role: 'admin' | 'editor' | 'viewer';
+  church_id: string;
+  role: UserRole;
   created_at: string;
 }
 
@@ -10,29 +12,305 @@ export interface Church {
   id: string;
   name: string;
   logo_url?: string;
+  // App branding colours; slides use presentation themes instead
   theme: {
     primary_color: string;
     secondary_color: string;
   };
+  default_theme_id?: string | null;
   created_at: string;
 }
 
+export type ThemeBackgroundType = 'color' | 'gradient' | 'image';
+
+export type SlideTransition = 'cut' | 'crossfade' | 'fade-black';
+
+export type CreditSlide = 'none' | 'first' | 'last';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Sizes and margins are in pixels on the 1920x1080 slide stage
+export interface PresentationThemeSettings {
+  background_type: ThemeBackgroundType;
+  background_color: string;
+  gradient_start: string;
+  gradient_end: string;
+  gradient_angle: number;
+  background_image_url: string | null;
+  // 0-1, darkens a background image so text stays readable
+  background_dim: number;
+  font_family: string;
+  // Fixed size, used when auto_fit is off and for slides that aren't fitted
+  font_size: number;
+  // Sizes lyrics and custom text to fill the screen between these bounds
+  auto_fit: boolean;
+  min_font_size: number;
+  max_font_size: number;
+  text_color: string;
+  text_shadow: boolean;
+  text_outline: boolean;
+  text_align: 'left' | 'center' | 'right';
+  vertical_align: 'top' | 'middle' | 'bottom';
+  margin: number;
+  show_watermark: boolean;
+  watermark_position: WatermarkPosition;
+  transition: SlideTransition;
+  // Milliseconds; fade-black spends half fading out and half fading in
+  transition_duration: number;
+  // Which slide of a song shows its author, copyright and CCLI number
+  credit_slide: CreditSlide;
+}
+
+export interface PresentationTheme {
+  id: string;
+  church_id: string;
+  name: string;
+  settings: PresentationThemeSettings;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Song {
   id: string;
   title: string;
   author: string;
-  churchId: string;
+  church_id: string;
   created_by: string;
   created_at: string;
   updated_at: string;
   segments: SongSegment[];
+  arrangements?: SongArrangement[];
+  // Overrides the church's default presentation theme
+  theme_id?: string | null;
+  // Semitones the chords are moved from how they're written
+  transpose?: number;
+  // Fret the guitarist's capo sits on; chords are shown as the shapes played
+  capo?: number;
+  // Licensing and musical details. Any of them may be missing on songs
+  // loaded before they were added.
+  ccli_number?: string | null;
+  // As printed, e.g. "© 1996 Example Music"
+  copyright?: string | null;
+  publisher?: string | null;
+  // The key the song was written in, e.g. "G" or "Em", whatever its chords say
+  original_key?: string | null;
+  // Beats per minute
+  tempo?: number | null;
+  // e.g. "4/4" or "6/8"
+  time_signature?: string | null;
+  // ISO 639-1 code, e.g. "en"
+  language?: string | null;
+  // Free-form, lower case, e.g. "communion" or "advent"
+  tags?: string[];
 }
 
+export type SegmentType =
+  | 'intro'
+  | 'verse'
+  | 'pre-chorus'
+  | 'chorus'
+  | 'refrain'
+  | 'bridge'
+  | 'interlude'
+  | 'vamp'
+  | 'tag'
+  | 'outro'
+  | 'ending';
+
 export interface SongSegment {
   id: string;
-  songId: string;
-  type: 'verse' | 'chorus' | 'bridge' | 'pre-chorus';
-  order: number;
+  song_id?: string;
+  type: SegmentType;
+  order_num: number;
+  // Shown after the type, e.g. "2" or "1b" for "Chorus 1b". Without one,
+  // segments of a type are numbered in order when there's more than one.
+  label?: string | null;
+  // Lyrics, with any chords inline in ChordPro style, e.g. "[G]Amazing grace"
   content: string;
+  // The same lyrics in other languages, keyed by ISO 639-1 code, line for
+  // line with content and without chords
+  translations?: Record<string, string>;
+  created_at?: string;
+}
+
+// A named play order. sequence holds segment ids and may repeat a segment,
+// e.g. a chorus sung three times is stored once and listed three times.
+export interface SongArrangement {
+  id: string;
+  song_id?: string;
+  name: string;
+  sequence: string[];
+  is_default: boolean;
+}
+
+export type QueueItemType = 'song' | 'text' | 'announcement' | 'blank' | 'scripture';
+
+export type BlankMode = 'black' | 'logo';
+
+// Temporarily hides the live slide without losing its place
+export type DisplayOverlay = 'black' | 'clear' | 'logo';
+
+// What a display is used for: the main screen shows the slides, the stage
+// display is for the band and the lower third is keyed over the livestream
+export type OutputRole = 'main' | 'stage' | 'lower-third';
+
+// How an output follows the line cursor when the operator steps through a
+// slide line by line: ignore it, show only the current lines, or show the
+// whole slide with the current lines highlighted
+export type LineDisplay = 'slide' | 'lines' | 'highlight';
+
+// Which languages song slides show: the song's own, a translation under
+// it, or the translation alone
+export type LanguageMode = 'original' | 'bilingual' | 'translation';
+
+export interface SlideLanguages {
+  mode: LanguageMode;
+  // ISO 639-1 code of the translation to show, or null for the first one
+  // the song has
+  translation: string | null;
+}
+
+// The lines being sung, counted over the slide's non-blank lines
+export interface LineCursor {
+  start: number;
+  count: number;
+}
+
+// A display connected to the church's control room
+export interface ConnectedOutput {
+  id: string;
+  role: OutputRole;
+}
+
+interface QueueItemBase {
+  id: string;
+  // Overrides the song's and the church's theme for this item only
+  themeId?: string | null;
+}
+
+export interface SongQueueItem extends QueueItemBase {
+  type: 'song';
+  song: Song;
+  arrangementId: string | null;
+}
+
+// A free-form slide, e.g. a welcome message or a sermon point
+export interface TextQueueItem extends QueueItemBase {
+  type: 'text';
+  title: string;
+  content: string;
+}
+
+export interface AnnouncementQueueItem extends QueueItemBase {
+  type: 'announcement';
+  title: string;
+  body: string;
+  image_url: string | null;
+}
+
+export interface BlankQueueItem extends QueueItemBase {
+  type: 'blank';
+  mode: BlankMode;
+}
+
+export interface ScriptureVerse {
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+// Verses are copied into the item so a planned reading doesn't depend on the
+// Bible file still being available on the day.
+export interface ScriptureQueueItem extends QueueItemBase {
+  type: 'scripture';
+  book: string;
+  // Abbreviation of the translation, e.g. "KJV"
+  translation: string;
+  verses: ScriptureVerse[];
+}
+
+export type QueueItem =
+  | SongQueueItem
+  | TextQueueItem
+  | AnnouncementQueueItem
+  | BlankQueueItem
+  | ScriptureQueueItem;
+
+// What a display renders. Song slides carry only the song details shown on
+// screen, not the whole song.
+export type Slide =
+  | {
+      type: 'song';
+      song: Pick<Song, 'id' | 'title' | 'author'>;
+      // content is only this part's lines when a long segment is split, with
+      // the chords taken out
+      segment: SongSegment;
+      // The segment's name, e.g. "Verse 2"
+      label: string;
+      // This part's lines in the translation, shown under the lyrics in a
+      // smaller style when both languages are shown
+      translation: string | null;
+      part: number;
+      parts: number;
+      // Author, copyright and CCLI number, set on the one slide of the song
+      // the theme shows them on
+      credit: string | null;
+      // The same lines with chords, transposed for the song's capo, or null
+      // when the song has no chords. Only the stage display shows them.
+      chords: string | null;
+    }
+  | { type: 'text'; title: string; content: string }
+  | { type: 'announcement'; title: string; body: string; image_url: string | null }
+  | { type: 'blank'; mode: BlankMode }
+  | { type: 'scripture'; reference: string; translation: string; verses: ScriptureVerse[] };
+
+export interface Service {
+  id: string;
+  church_id: string;
+  name: string;
+  service_date: string;
+  created_by: string;
   created_at: string;
-}
\ No newline at end of file
+  updated_at: string;
+}
+
+export interface ServiceItem {
+  id: string;
+  service_id?: string;
+  position: number;
+  item_type: QueueItemType;
+  song_id: string | null;
+  arrangement_id: string | null;
+  theme_id: string | null;
+  // Content of non-song items, e.g. { title, body, image_url } for an announcement
+  data: Record<string, unknown> | null;
+  song: Song | null;
+}
+
+export interface ServiceWithItems extends Service {
+  items: ServiceItem[];
+}
+
+// Shape sent to the save_song RPC. Segment ids are generated client-side so
+// that a new song can be saved in a single round trip.
+export interface SongDraft {
+  id?: string;
+  title: string;
+  author: string;
+  segments: Array<Pick<SongSegment, 'id' | 'type' | 'order_num' | 'content' | 'label' | 'translations'>>;
+  // Omitted when the caller doesn't manage arrangements (e.g. imports), in
+  // which case existing arrangements are kept.
+  arrangements?: Array<Pick<SongArrangement, 'id' | 'name' | 'sequence' | 'is_default'>>;
+  // Likewise omitted to keep the song's current theme
+  theme_id?: string | null;
+  transpose?: number;
+  capo?: number;
+  ccli_number?: string | null;
+  copyright?: string | null;
+  publisher?: string | null;
+  original_key?: string | null;
+  tempo?: number | null;
+  time_signature?: string | null;
+  language?: string | null;
+  tags?: string[];
+}
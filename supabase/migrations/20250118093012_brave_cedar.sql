@@ -0,0 +1,80 @@
+/*
+  # Atomic song saving
+
+  1. Functions
+    - save_song(p_song jsonb, p_segments jsonb)
+      - Inserts or updates a song and its segments in one transaction
+      - Segments missing from p_segments are deleted
+      - Segment ids supplied by the client are preserved so other records
+        can refer to them
+
+  2. Security
+    - Runs as the caller (SECURITY INVOKER) so existing RLS policies apply
+    - Explicitly rejects callers who are not editors or admins
+*/
+
+CREATE OR REPLACE FUNCTION save_song(p_song jsonb, p_segments jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_song_id uuid := COALESCE(NULLIF(p_song->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save songs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_song->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO songs (id, title, author, church_id, created_by)
+  VALUES (
+    v_song_id,
+    trim(p_song->>'title'),
+    COALESCE(trim(p_song->>'author'), ''),
+    v_church_id,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET title = EXCLUDED.title,
+        author = EXCLUDED.author
+    WHERE songs.church_id = v_church_id;
+
+  DELETE FROM song_segments
+  WHERE song_id = v_song_id
+  AND id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(p_segments) AS s(id uuid)
+    WHERE s.id IS NOT NULL
+  );
+
+  INSERT INTO song_segments (id, song_id, type, order_num, content)
+  SELECT
+    COALESCE(s.id, gen_random_uuid()),
+    v_song_id,
+    s.type,
+    s.order_num,
+    s.content
+  FROM jsonb_to_recordset(p_segments)
+    AS s(id uuid, type text, order_num integer, content text)
+  ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        order_num = EXCLUDED.order_num,
+        content = EXCLUDED.content
+    WHERE song_segments.song_id = v_song_id;
+
+  RETURN v_song_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_song(jsonb, jsonb) TO authenticated;
@@ -0,0 +1,171 @@
+/*
+  # Song arrangements
+
+  1. New Tables
+    - song_arrangements
+      - Named play orders for a song ("V1 C V2 C B C C")
+      - sequence holds song_segments ids, so a segment can repeat
+      - At most one arrangement per song is the default
+
+  2. Functions
+    - save_song gains an optional p_arrangements argument
+      - When given, the song's arrangements are replaced in the same
+        transaction as its segments
+      - Sequences are always pruned of segments that no longer exist
+
+  3. Security
+    - Enable RLS on song_arrangements
+    - Same read/write rules as song_segments
+*/
+
+CREATE TABLE IF NOT EXISTS song_arrangements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  song_id uuid REFERENCES songs ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  sequence uuid[] NOT NULL DEFAULT '{}',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS song_arrangements_one_default
+  ON song_arrangements (song_id)
+  WHERE is_default;
+
+ALTER TABLE song_arrangements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "song_arrangements_read_policy"
+  ON song_arrangements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM songs
+      JOIN users ON users.church_id = songs.church_id
+      WHERE songs.id = song_arrangements.song_id
+      AND users.id = auth.uid()
+    )
+  );
+
+CREATE POLICY "song_arrangements_write_policy"
+  ON song_arrangements FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM songs
+      JOIN users ON users.church_id = songs.church_id
+      WHERE songs.id = song_arrangements.song_id
+      AND users.id = auth.uid()
+      AND users.role IN ('admin', 'editor')
+    )
+  );
+
+DROP FUNCTION IF EXISTS save_song(jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION save_song(
+  p_song jsonb,
+  p_segments jsonb,
+  p_arrangements jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_song_id uuid := COALESCE(NULLIF(p_song->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save songs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_song->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO songs (id, title, author, church_id, created_by)
+  VALUES (
+    v_song_id,
+    trim(p_song->>'title'),
+    COALESCE(trim(p_song->>'author'), ''),
+    v_church_id,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET title = EXCLUDED.title,
+        author = EXCLUDED.author
+    WHERE songs.church_id = v_church_id;
+
+  DELETE FROM song_segments
+  WHERE song_id = v_song_id
+  AND id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(p_segments) AS s(id uuid)
+    WHERE s.id IS NOT NULL
+  );
+
+  INSERT INTO song_segments (id, song_id, type, order_num, content)
+  SELECT
+    COALESCE(s.id, gen_random_uuid()),
+    v_song_id,
+    s.type,
+    s.order_num,
+    s.content
+  FROM jsonb_to_recordset(p_segments)
+    AS s(id uuid, type text, order_num integer, content text)
+  ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        order_num = EXCLUDED.order_num,
+        content = EXCLUDED.content
+    WHERE song_segments.song_id = v_song_id;
+
+  IF p_arrangements IS NOT NULL THEN
+    DELETE FROM song_arrangements WHERE song_id = v_song_id;
+
+    INSERT INTO song_arrangements (id, song_id, name, sequence, is_default)
+    SELECT
+      COALESCE(a.id, gen_random_uuid()),
+      v_song_id,
+      a.name,
+      COALESCE(a.sequence, '{}'),
+      COALESCE(a.is_default, false)
+    FROM jsonb_to_recordset(p_arrangements)
+      AS a(id uuid, name text, sequence uuid[], is_default boolean);
+
+    -- Every song with arrangements keeps exactly one default
+    IF NOT EXISTS (
+      SELECT 1 FROM song_arrangements
+      WHERE song_id = v_song_id AND is_default
+    ) THEN
+      UPDATE song_arrangements
+      SET is_default = true
+      WHERE id = (
+        SELECT id FROM song_arrangements
+        WHERE song_id = v_song_id
+        ORDER BY created_at, id
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE song_arrangements a
+  SET sequence = ARRAY(
+    SELECT t.segment_id
+    FROM unnest(a.sequence) WITH ORDINALITY AS t(segment_id, position)
+    WHERE t.segment_id IN (
+      SELECT id FROM song_segments WHERE song_id = v_song_id
+    )
+    ORDER BY t.position
+  )
+  WHERE a.song_id = v_song_id;
+
+  RETURN v_song_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_song(jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,157 @@
+/*
+  # Service plans
+
+  1. New Tables
+    - services
+      - A dated, named running order for a church (e.g. "Sunday Morning")
+    - service_items
+      - Ordered entries of a service
+      - arrangement_id is deliberately not a foreign key: arrangements are
+        rewritten when a song is saved, and a missing arrangement simply
+        falls back to the song's default
+
+  2. Functions
+    - save_service(p_service jsonb, p_items jsonb)
+      - Inserts or updates a service and replaces its items in one
+        transaction
+
+  3. Security
+    - Enable RLS on both tables
+    - Church members can read, editors and admins can write
+*/
+
+CREATE TABLE IF NOT EXISTS services (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  church_id uuid REFERENCES churches NOT NULL,
+  name text NOT NULL,
+  service_date date NOT NULL,
+  created_by uuid REFERENCES users NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS services_church_date
+  ON services (church_id, service_date DESC);
+
+CREATE TABLE IF NOT EXISTS service_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid REFERENCES services ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  song_id uuid REFERENCES songs ON DELETE CASCADE NOT NULL,
+  arrangement_id uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS service_items_service_position
+  ON service_items (service_id, position);
+
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "services_read_policy"
+  ON services FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = services.church_id
+    )
+  );
+
+CREATE POLICY "services_write_policy"
+  ON services FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = services.church_id
+      AND users.role IN ('admin', 'editor')
+    )
+  );
+
+CREATE POLICY "service_items_read_policy"
+  ON service_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM services
+      JOIN users ON users.church_id = services.church_id
+      WHERE services.id = service_items.service_id
+      AND users.id = auth.uid()
+    )
+  );
+
+CREATE POLICY "service_items_write_policy"
+  ON service_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM services
+      JOIN users ON users.church_id = services.church_id
+      WHERE services.id = service_items.service_id
+      AND users.id = auth.uid()
+      AND users.role IN ('admin', 'editor')
+    )
+  );
+
+CREATE TRIGGER update_services_updated_at
+  BEFORE UPDATE ON services
+  FOR EACH ROW
+  EXECUTE PROCEDURE update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION save_service(p_service jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_service_id uuid := COALESCE(NULLIF(p_service->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save services'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_service->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Service name is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO services (id, church_id, name, service_date, created_by)
+  VALUES (
+    v_service_id,
+    v_church_id,
+    trim(p_service->>'name'),
+    (p_service->>'service_date')::date,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        service_date = EXCLUDED.service_date
+    WHERE services.church_id = v_church_id;
+
+  DELETE FROM service_items WHERE service_id = v_service_id;
+
+  INSERT INTO service_items (id, service_id, position, song_id, arrangement_id)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    v_service_id,
+    i.position,
+    i.song_id,
+    i.arrangement_id
+  FROM jsonb_to_recordset(p_items)
+    AS i(id uuid, position integer, song_id uuid, arrangement_id uuid);
+
+  RETURN v_service_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_service(jsonb, jsonb) TO authenticated;
@@ -0,0 +1,81 @@
+/*
+  # Non-song service items
+
+  1. Changes
+    - service_items
+      - item_type: 'song', 'text', 'announcement' or 'blank'
+      - song_id is now only required for song items
+      - data: content of non-song items (title, body, image_url, mode)
+
+  2. Functions
+    - save_service(p_service jsonb, p_items jsonb)
+      - Stores item_type and data for each item
+*/
+
+ALTER TABLE service_items
+  ADD COLUMN IF NOT EXISTS item_type text NOT NULL DEFAULT 'song',
+  ADD COLUMN IF NOT EXISTS data jsonb;
+
+ALTER TABLE service_items
+  ALTER COLUMN song_id DROP NOT NULL;
+
+ALTER TABLE service_items
+  ADD CONSTRAINT service_items_item_type_check
+    CHECK (item_type IN ('song', 'text', 'announcement', 'blank')),
+  ADD CONSTRAINT service_items_song_check
+    CHECK (item_type <> 'song' OR song_id IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION save_service(p_service jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_service_id uuid := COALESCE(NULLIF(p_service->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save services'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_service->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Service name is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO services (id, church_id, name, service_date, created_by)
+  VALUES (
+    v_service_id,
+    v_church_id,
+    trim(p_service->>'name'),
+    (p_service->>'service_date')::date,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        service_date = EXCLUDED.service_date
+    WHERE services.church_id = v_church_id;
+
+  DELETE FROM service_items WHERE service_id = v_service_id;
+
+  INSERT INTO service_items (id, service_id, position, item_type, song_id, arrangement_id, data)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    v_service_id,
+    i.position,
+    COALESCE(i.item_type, 'song'),
+    i.song_id,
+    i.arrangement_id,
+    i.data
+  FROM jsonb_to_recordset(p_items)
+    AS i(id uuid, position integer, item_type text, song_id uuid, arrangement_id uuid, data jsonb);
+
+  RETURN v_service_id;
+END;
+$$;
@@ -0,0 +1,16 @@
+/*
+  # Scripture service items
+
+  1. Changes
+    - service_items
+      - Allow item_type 'scripture'. The verses are stored in data
+        ({ book, translation, verses }) so a planned reading doesn't depend
+        on the Bible files deployed with the app.
+*/
+
+ALTER TABLE service_items
+  DROP CONSTRAINT IF EXISTS service_items_item_type_check;
+
+ALTER TABLE service_items
+  ADD CONSTRAINT service_items_item_type_check
+    CHECK (item_type IN ('song', 'text', 'announcement', 'blank', 'scripture'));
@@ -0,0 +1,71 @@
+/*
+  # Presentation themes
+
+  1. New Tables
+    - presentation_themes
+      - Named slide styles for a church (background, font, text effects,
+        alignment, margins and logo watermark), stored as jsonb settings
+
+  2. Changes
+    - churches.default_theme_id
+      - The theme used when nothing more specific is chosen; cleared if the
+        theme is deleted
+
+  3. Security
+    - Enable RLS on presentation_themes
+    - Church members can read, editors and admins can write
+*/
+
+CREATE TABLE IF NOT EXISTS presentation_themes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  church_id uuid REFERENCES churches ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS presentation_themes_church
+  ON presentation_themes (church_id);
+
+ALTER TABLE churches
+  ADD COLUMN IF NOT EXISTS default_theme_id uuid
+    REFERENCES presentation_themes ON DELETE SET NULL;
+
+ALTER TABLE presentation_themes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "presentation_themes_read_policy"
+  ON presentation_themes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = presentation_themes.church_id
+    )
+  );
+
+CREATE POLICY "presentation_themes_write_policy"
+  ON presentation_themes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = presentation_themes.church_id
+      AND users.role IN ('admin', 'editor')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = presentation_themes.church_id
+      AND users.role IN ('admin', 'editor')
+    )
+  );
+
+CREATE TRIGGER update_presentation_themes_updated_at
+  BEFORE UPDATE ON presentation_themes
+  FOR EACH ROW
+  EXECUTE PROCEDURE update_updated_at_column();
@@ -0,0 +1,189 @@
+/*
+  # Theme overrides
+
+  1. Changes
+    - songs.theme_id
+      - Presentation theme for this song instead of the church default
+    - service_items.theme_id
+      - Presentation theme for one item in a service, overriding the song's
+    - Both are cleared if the theme is deleted
+
+  2. Functions
+    - save_song stores theme_id when p_song includes it, and keeps the
+      current theme otherwise (imports don't know about themes)
+    - save_service stores theme_id for each item
+*/
+
+ALTER TABLE songs
+  ADD COLUMN IF NOT EXISTS theme_id uuid
+    REFERENCES presentation_themes ON DELETE SET NULL;
+
+ALTER TABLE service_items
+  ADD COLUMN IF NOT EXISTS theme_id uuid
+    REFERENCES presentation_themes ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION save_song(
+  p_song jsonb,
+  p_segments jsonb,
+  p_arrangements jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_song_id uuid := COALESCE(NULLIF(p_song->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save songs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_song->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO songs (id, title, author, theme_id, church_id, created_by)
+  VALUES (
+    v_song_id,
+    trim(p_song->>'title'),
+    COALESCE(trim(p_song->>'author'), ''),
+    NULLIF(p_song->>'theme_id', '')::uuid,
+    v_church_id,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET title = EXCLUDED.title,
+        author = EXCLUDED.author,
+        theme_id = CASE WHEN p_song ? 'theme_id' THEN EXCLUDED.theme_id ELSE songs.theme_id END
+    WHERE songs.church_id = v_church_id;
+
+  DELETE FROM song_segments
+  WHERE song_id = v_song_id
+  AND id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(p_segments) AS s(id uuid)
+    WHERE s.id IS NOT NULL
+  );
+
+  INSERT INTO song_segments (id, song_id, type, order_num, content)
+  SELECT
+    COALESCE(s.id, gen_random_uuid()),
+    v_song_id,
+    s.type,
+    s.order_num,
+    s.content
+  FROM jsonb_to_recordset(p_segments)
+    AS s(id uuid, type text, order_num integer, content text)
+  ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        order_num = EXCLUDED.order_num,
+        content = EXCLUDED.content
+    WHERE song_segments.song_id = v_song_id;
+
+  IF p_arrangements IS NOT NULL THEN
+    DELETE FROM song_arrangements WHERE song_id = v_song_id;
+
+    INSERT INTO song_arrangements (id, song_id, name, sequence, is_default)
+    SELECT
+      COALESCE(a.id, gen_random_uuid()),
+      v_song_id,
+      a.name,
+      COALESCE(a.sequence, '{}'),
+      COALESCE(a.is_default, false)
+    FROM jsonb_to_recordset(p_arrangements)
+      AS a(id uuid, name text, sequence uuid[], is_default boolean);
+
+    -- Every song with arrangements keeps exactly one default
+    IF NOT EXISTS (
+      SELECT 1 FROM song_arrangements
+      WHERE song_id = v_song_id AND is_default
+    ) THEN
+      UPDATE song_arrangements
+      SET is_default = true
+      WHERE id = (
+        SELECT id FROM song_arrangements
+        WHERE song_id = v_song_id
+        ORDER BY created_at, id
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE song_arrangements a
+  SET sequence = ARRAY(
+    SELECT t.segment_id
+    FROM unnest(a.sequence) WITH ORDINALITY AS t(segment_id, position)
+    WHERE t.segment_id IN (
+      SELECT id FROM song_segments WHERE song_id = v_song_id
+    )
+    ORDER BY t.position
+  )
+  WHERE a.song_id = v_song_id;
+
+  RETURN v_song_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_service(p_service jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_service_id uuid := COALESCE(NULLIF(p_service->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save services'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_service->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Service name is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO services (id, church_id, name, service_date, created_by)
+  VALUES (
+    v_service_id,
+    v_church_id,
+    trim(p_service->>'name'),
+    (p_service->>'service_date')::date,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        service_date = EXCLUDED.service_date
+    WHERE services.church_id = v_church_id;
+
+  DELETE FROM service_items WHERE service_id = v_service_id;
+
+  INSERT INTO service_items (id, service_id, position, item_type, song_id, arrangement_id, theme_id, data)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    v_service_id,
+    i.position,
+    COALESCE(i.item_type, 'song'),
+    i.song_id,
+    i.arrangement_id,
+    i.theme_id,
+    i.data
+  FROM jsonb_to_recordset(p_items)
+    AS i(id uuid, position integer, item_type text, song_id uuid, arrangement_id uuid, theme_id uuid, data jsonb);
+
+  RETURN v_service_id;
+END;
+$$;
@@ -0,0 +1,165 @@
+/*
+  # Lyric search
+
+  1. Changes
+    - unaccent extension, and a song_search text search configuration that
+      folds case and accents without stemming (libraries mix languages)
+    - songs.search_vector
+      - Title (weighted highest), author and lyrics with chords removed
+      - Kept up to date by triggers on songs and song_segments
+      - GIN index
+
+  2. Functions
+    - song_lyrics returns a song's lyrics in order, without inline chords
+    - song_search_query turns what was typed into a query where every word
+      must match, the last one (and the rest) as a prefix; punctuation is
+      ignored
+    - search_songs returns one page of the caller's church's songs matching
+      the query, best first, with a snippet of the matching lyrics and the
+      total number of matches. Matches in the snippet are wrapped in
+      chr(2) and chr(3) so the app can highlight them without trusting any
+      markup in the lyrics.
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_ts_config WHERE cfgname = 'song_search'
+  ) THEN
+    CREATE TEXT SEARCH CONFIGURATION song_search (COPY = simple);
+    ALTER TEXT SEARCH CONFIGURATION song_search
+      ALTER MAPPING FOR hword, hword_part, word
+      WITH extensions.unaccent, simple;
+  END IF;
+END $$;
+
+ALTER TABLE songs
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE INDEX IF NOT EXISTS songs_search_vector_idx
+  ON songs USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION song_lyrics(p_song_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT string_agg(regexp_replace(content, '\[[^]]*\]', '', 'g'), E'\n' ORDER BY order_num)
+  FROM song_segments
+  WHERE song_id = p_song_id;
+$$;
+
+CREATE OR REPLACE FUNCTION song_search_vector(p_title text, p_author text, p_lyrics text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('song_search', COALESCE(p_title, '')), 'A')
+    || setweight(to_tsvector('song_search', COALESCE(p_author, '')), 'B')
+    || setweight(to_tsvector('song_search', COALESCE(p_lyrics, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION song_search_query(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_tsquery('song_search', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(p_query, '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION update_song_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := song_search_vector(NEW.title, NEW.author, song_lyrics(NEW.id));
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_song_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_song_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_song_id := OLD.song_id;
+  ELSE
+    v_song_id := NEW.song_id;
+  END IF;
+
+  UPDATE songs
+  SET search_vector = song_search_vector(title, author, song_lyrics(id))
+  WHERE id = v_song_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_songs_search_vector ON songs;
+CREATE TRIGGER update_songs_search_vector
+  BEFORE INSERT OR UPDATE OF title, author ON songs
+  FOR EACH ROW
+  EXECUTE PROCEDURE update_song_search_vector();
+
+DROP TRIGGER IF EXISTS refresh_song_search_vector ON song_segments;
+CREATE TRIGGER refresh_song_search_vector
+  AFTER INSERT OR UPDATE OF content OR DELETE ON song_segments
+  FOR EACH ROW
+  EXECUTE PROCEDURE refresh_song_search_vector();
+
+-- Index existing songs without marking them all as edited
+ALTER TABLE songs DISABLE TRIGGER update_songs_updated_at;
+UPDATE songs SET search_vector = song_search_vector(title, author, song_lyrics(id));
+ALTER TABLE songs ENABLE TRIGGER update_songs_updated_at;
+
+CREATE OR REPLACE FUNCTION search_songs(
+  p_query text,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (id uuid, rank real, snippet text, total_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH search AS (
+    SELECT song_search_query(p_query) AS query
+  ),
+  matches AS (
+    SELECT
+      s.id AS song_id,
+      s.title,
+      ts_rank_cd(s.search_vector, search.query) AS song_rank
+    FROM songs s, search
+    WHERE s.church_id = (SELECT u.church_id FROM users u WHERE u.id = auth.uid())
+      AND s.search_vector @@ search.query
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS matches_total
+    FROM matches m
+    ORDER BY m.song_rank DESC, m.title, m.song_id
+    LIMIT p_limit OFFSET p_offset
+  )
+  SELECT
+    page.song_id,
+    page.song_rank,
+    -- Only lyrics are quoted; a match on the title alone has no snippet
+    (
+      SELECT CASE WHEN strpos(headline, chr(2)) > 0 THEN headline END
+      FROM ts_headline(
+        'song_search',
+        song_lyrics(page.song_id),
+        search.query,
+        format('StartSel=%s, StopSel=%s, MaxFragments=1, MaxWords=16, MinWords=6', chr(2), chr(3))
+      ) AS headline
+    ),
+    page.matches_total
+  FROM page, search
+  ORDER BY page.song_rank DESC, page.title, page.song_id;
+$$;
@@ -0,0 +1,233 @@
+/*
+  # Song details
+
+  1. Changes
+    - songs.ccli_number, songs.copyright, songs.publisher
+      - Licensing details, shown on screen with the author when the theme
+        asks for them
+    - songs.original_key, songs.tempo, songs.time_signature
+      - For the musicians; tempo is in beats per minute
+    - songs.language
+      - ISO 639-1 code, e.g. 'en'
+    - songs.tags
+      - Free-form, lower case, e.g. 'communion' or 'advent'
+      - GIN index for filtering the library
+
+  2. Functions
+    - save_song stores the new details when p_song includes them, and keeps
+      the current values otherwise, as with theme_id. Blank values are
+      stored as NULL.
+    - search_songs takes optional tag, key and language filters
+*/
+
+ALTER TABLE songs
+  ADD COLUMN IF NOT EXISTS ccli_number text,
+  ADD COLUMN IF NOT EXISTS copyright text,
+  ADD COLUMN IF NOT EXISTS publisher text,
+  ADD COLUMN IF NOT EXISTS original_key text,
+  ADD COLUMN IF NOT EXISTS tempo integer
+    CHECK (tempo BETWEEN 20 AND 300),
+  ADD COLUMN IF NOT EXISTS time_signature text
+    CHECK (time_signature ~ '^[0-9]{1,2}/[0-9]{1,2}$'),
+  ADD COLUMN IF NOT EXISTS language text
+    CHECK (language ~ '^[a-z]{2}$'),
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS songs_tags_idx
+  ON songs USING gin (tags);
+
+CREATE OR REPLACE FUNCTION save_song(
+  p_song jsonb,
+  p_segments jsonb,
+  p_arrangements jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_song_id uuid := COALESCE(NULLIF(p_song->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save songs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_song->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO songs (
+    id, title, author, theme_id, transpose, capo,
+    ccli_number, copyright, publisher, original_key, tempo, time_signature, language, tags,
+    church_id, created_by
+  )
+  VALUES (
+    v_song_id,
+    trim(p_song->>'title'),
+    COALESCE(trim(p_song->>'author'), ''),
+    NULLIF(p_song->>'theme_id', '')::uuid,
+    COALESCE((p_song->>'transpose')::integer, 0),
+    COALESCE((p_song->>'capo')::integer, 0),
+    NULLIF(trim(p_song->>'ccli_number'), ''),
+    NULLIF(trim(p_song->>'copyright'), ''),
+    NULLIF(trim(p_song->>'publisher'), ''),
+    NULLIF(trim(p_song->>'original_key'), ''),
+    (p_song->>'tempo')::integer,
+    NULLIF(trim(p_song->>'time_signature'), ''),
+    NULLIF(trim(p_song->>'language'), ''),
+    ARRAY(
+      SELECT DISTINCT lower(trim(tag))
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(p_song->'tags') = 'array' THEN p_song->'tags' ELSE '[]' END
+      ) AS tag
+      WHERE trim(tag) <> ''
+      ORDER BY 1
+    ),
+    v_church_id,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET title = EXCLUDED.title,
+        author = EXCLUDED.author,
+        theme_id = CASE WHEN p_song ? 'theme_id' THEN EXCLUDED.theme_id ELSE songs.theme_id END,
+        transpose = CASE WHEN p_song ? 'transpose' THEN EXCLUDED.transpose ELSE songs.transpose END,
+        capo = CASE WHEN p_song ? 'capo' THEN EXCLUDED.capo ELSE songs.capo END,
+        ccli_number = CASE WHEN p_song ? 'ccli_number' THEN EXCLUDED.ccli_number ELSE songs.ccli_number END,
+        copyright = CASE WHEN p_song ? 'copyright' THEN EXCLUDED.copyright ELSE songs.copyright END,
+        publisher = CASE WHEN p_song ? 'publisher' THEN EXCLUDED.publisher ELSE songs.publisher END,
+        original_key = CASE WHEN p_song ? 'original_key' THEN EXCLUDED.original_key ELSE songs.original_key END,
+        tempo = CASE WHEN p_song ? 'tempo' THEN EXCLUDED.tempo ELSE songs.tempo END,
+        time_signature = CASE WHEN p_song ? 'time_signature' THEN EXCLUDED.time_signature ELSE songs.time_signature END,
+        language = CASE WHEN p_song ? 'language' THEN EXCLUDED.language ELSE songs.language END,
+        tags = CASE WHEN p_song ? 'tags' THEN EXCLUDED.tags ELSE songs.tags END
+    WHERE songs.church_id = v_church_id;
+
+  DELETE FROM song_segments
+  WHERE song_id = v_song_id
+  AND id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(p_segments) AS s(id uuid)
+    WHERE s.id IS NOT NULL
+  );
+
+  INSERT INTO song_segments (id, song_id, type, order_num, content)
+  SELECT
+    COALESCE(s.id, gen_random_uuid()),
+    v_song_id,
+    s.type,
+    s.order_num,
+    s.content
+  FROM jsonb_to_recordset(p_segments)
+    AS s(id uuid, type text, order_num integer, content text)
+  ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        order_num = EXCLUDED.order_num,
+        content = EXCLUDED.content
+    WHERE song_segments.song_id = v_song_id;
+
+  IF p_arrangements IS NOT NULL THEN
+    DELETE FROM song_arrangements WHERE song_id = v_song_id;
+
+    INSERT INTO song_arrangements (id, song_id, name, sequence, is_default)
+    SELECT
+      COALESCE(a.id, gen_random_uuid()),
+      v_song_id,
+      a.name,
+      COALESCE(a.sequence, '{}'),
+      COALESCE(a.is_default, false)
+    FROM jsonb_to_recordset(p_arrangements)
+      AS a(id uuid, name text, sequence uuid[], is_default boolean);
+
+    -- Every song with arrangements keeps exactly one default
+    IF NOT EXISTS (
+      SELECT 1 FROM song_arrangements
+      WHERE song_id = v_song_id AND is_default
+    ) THEN
+      UPDATE song_arrangements
+      SET is_default = true
+      WHERE id = (
+        SELECT id FROM song_arrangements
+        WHERE song_id = v_song_id
+        ORDER BY created_at, id
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE song_arrangements a
+  SET sequence = ARRAY(
+    SELECT t.segment_id
+    FROM unnest(a.sequence) WITH ORDINALITY AS t(segment_id, position)
+    WHERE t.segment_id IN (
+      SELECT id FROM song_segments WHERE song_id = v_song_id
+    )
+    ORDER BY t.position
+  )
+  WHERE a.song_id = v_song_id;
+
+  RETURN v_song_id;
+END;
+$$;
+
+-- The parameter list changes, so the old version has to go
+DROP FUNCTION IF EXISTS search_songs(text, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_songs(
+  p_query text,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0,
+  p_tag text DEFAULT NULL,
+  p_key text DEFAULT NULL,
+  p_language text DEFAULT NULL
+)
+RETURNS TABLE (id uuid, rank real, snippet text, total_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH search AS (
+    SELECT song_search_query(p_query) AS query
+  ),
+  matches AS (
+    SELECT
+      s.id AS song_id,
+      s.title,
+      ts_rank_cd(s.search_vector, search.query) AS song_rank
+    FROM songs s, search
+    WHERE s.church_id = (SELECT u.church_id FROM users u WHERE u.id = auth.uid())
+      AND s.search_vector @@ search.query
+      AND (p_tag IS NULL OR s.tags @> ARRAY[lower(p_tag)])
+      AND (p_key IS NULL OR s.original_key = p_key)
+      AND (p_language IS NULL OR s.language = p_language)
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS matches_total
+    FROM matches m
+    ORDER BY m.song_rank DESC, m.title, m.song_id
+    LIMIT p_limit OFFSET p_offset
+  )
+  SELECT
+    page.song_id,
+    page.song_rank,
+    -- Only lyrics are quoted; a match on the title alone has no snippet
+    (
+      SELECT CASE WHEN strpos(headline, chr(2)) > 0 THEN headline END
+      FROM ts_headline(
+        'song_search',
+        song_lyrics(page.song_id),
+        search.query,
+        format('StartSel=%s, StopSel=%s, MaxFragments=1, MaxWords=16, MinWords=6', chr(2), chr(3))
+      ) AS headline
+    ),
+    page.matches_total
+  FROM page, search
+  ORDER BY page.song_rank DESC, page.title, page.song_id;
+$$;
@@ -0,0 +1,103 @@
+/*
+  # Song usage
+
+  1. New Tables
+    - song_usage
+      - One row each time a song goes live in the control panel, with the
+        calendar day it was shown on and the service loaded at the time
+      - Title, author, copyright and CCLI number are copied from the song,
+        so the history can still be reported after the song is changed or
+        deleted
+      - The id is generated by the app, so a record saved while offline
+        can be sent again without counting twice
+
+  2. Functions
+    - song_usage_report returns the caller's church's usage between two
+      days, one row per song. uses counts the services a song was sung in
+      (a day without a service counts as one), which is what CCLI asks for;
+      times_shown counts every time it went live.
+
+  3. Security
+    - Enable RLS
+    - Church members can read, editors and admins (who run the control
+      panel) can record
+*/
+
+CREATE TABLE IF NOT EXISTS song_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  church_id uuid REFERENCES churches NOT NULL,
+  song_id uuid REFERENCES songs ON DELETE SET NULL,
+  service_id uuid REFERENCES services ON DELETE SET NULL,
+  used_on date NOT NULL,
+  song_title text NOT NULL,
+  song_author text NOT NULL DEFAULT '',
+  copyright text,
+  ccli_number text,
+  created_by uuid REFERENCES users NOT NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS song_usage_church_date
+  ON song_usage (church_id, used_on);
+
+ALTER TABLE song_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "song_usage_read_policy"
+  ON song_usage FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = song_usage.church_id
+    )
+  );
+
+CREATE POLICY "song_usage_insert_policy"
+  ON song_usage FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.church_id = song_usage.church_id
+      AND users.role IN ('admin', 'editor')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION song_usage_report(p_from date, p_to date)
+RETURNS TABLE (
+  song_id uuid,
+  title text,
+  author text,
+  copyright text,
+  ccli_number text,
+  uses bigint,
+  times_shown bigint,
+  last_used date
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    u.song_id,
+    -- The song as it is now, or as it was when last shown if it's gone
+    COALESCE(s.title, (array_agg(u.song_title ORDER BY u.created_at DESC))[1]),
+    COALESCE(s.author, (array_agg(u.song_author ORDER BY u.created_at DESC))[1]),
+    COALESCE(s.copyright, (array_agg(u.copyright ORDER BY u.created_at DESC))[1]),
+    COALESCE(s.ccli_number, (array_agg(u.ccli_number ORDER BY u.created_at DESC))[1]),
+    count(DISTINCT COALESCE(u.service_id::text, u.used_on::text)),
+    count(*),
+    max(u.used_on)
+  FROM song_usage u
+  LEFT JOIN songs s ON s.id = u.song_id
+  WHERE u.church_id = (SELECT church_id FROM users WHERE id = auth.uid())
+    AND u.used_on BETWEEN p_from AND p_to
+  -- Deleted songs are told apart by their CCLI number and title
+  GROUP BY u.song_id, s.id, CASE WHEN u.song_id IS NULL THEN COALESCE(u.ccli_number, u.song_title) END
+  ORDER BY 6 DESC, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION song_usage_report(date, date) TO authenticated;
@@ -0,0 +1,171 @@
+/*
+  # More segment types and segment labels
+
+  1. Changes
+    - song_segments
+      - Allow types 'intro', 'refrain', 'interlude', 'vamp', 'tag', 'outro'
+        and 'ending' alongside verse, pre-chorus, chorus and bridge
+      - label: the number shown after the type, e.g. '2' or '1b'. NULL
+        numbers the segment by its position among segments of its type.
+
+  2. Functions
+    - save_song stores each segment's label. Blank labels are stored as
+      NULL.
+*/
+
+ALTER TABLE song_segments
+  DROP CONSTRAINT IF EXISTS song_segments_type_check;
+
+ALTER TABLE song_segments
+  ADD CONSTRAINT song_segments_type_check
+    CHECK (type IN (
+      'intro', 'verse', 'pre-chorus', 'chorus', 'refrain', 'bridge',
+      'interlude', 'vamp', 'tag', 'outro', 'ending'
+    ));
+
+ALTER TABLE song_segments
+  ADD COLUMN IF NOT EXISTS label text
+    CHECK (char_length(label) <= 8);
+
+CREATE OR REPLACE FUNCTION save_song(
+  p_song jsonb,
+  p_segments jsonb,
+  p_arrangements jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_song_id uuid := COALESCE(NULLIF(p_song->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save songs'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_song->>'title'), '') = '' THEN
+    RAISE EXCEPTION 'Song title is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO songs (
+    id, title, author, theme_id, transpose, capo,
+    ccli_number, copyright, publisher, original_key, tempo, time_signature, language, tags,
+    church_id, created_by
+  )
+  VALUES (
+    v_song_id,
+    trim(p_song->>'title'),
+    COALESCE(trim(p_song->>'author'), ''),
+    NULLIF(p_song->>'theme_id', '')::uuid,
+    COALESCE((p_song->>'transpose')::integer, 0),
+    COALESCE((p_song->>'capo')::integer, 0),
+    NULLIF(trim(p_song->>'ccli_number'), ''),
+    NULLIF(trim(p_song->>'copyright'), ''),
+    NULLIF(trim(p_song->>'publisher'), ''),
+    NULLIF(trim(p_song->>'original_key'), ''),
+    (p_song->>'tempo')::integer,
+    NULLIF(trim(p_song->>'time_signature'), ''),
+    NULLIF(trim(p_song->>'language'), ''),
+    ARRAY(
+      SELECT DISTINCT lower(trim(tag))
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(p_song->'tags') = 'array' THEN p_song->'tags' ELSE '[]' END
+      ) AS tag
+      WHERE trim(tag) <> ''
+      ORDER BY 1
+    ),
+    v_church_id,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET title = EXCLUDED.title,
+        author = EXCLUDED.author,
+        theme_id = CASE WHEN p_song ? 'theme_id' THEN EXCLUDED.theme_id ELSE songs.theme_id END,
+        transpose = CASE WHEN p_song ? 'transpose' THEN EXCLUDED.transpose ELSE songs.transpose END,
+        capo = CASE WHEN p_song ? 'capo' THEN EXCLUDED.capo ELSE songs.capo END,
+        ccli_number = CASE WHEN p_song ? 'ccli_number' THEN EXCLUDED.ccli_number ELSE songs.ccli_number END,
+        copyright = CASE WHEN p_song ? 'copyright' THEN EXCLUDED.copyright ELSE songs.copyright END,
+        publisher = CASE WHEN p_song ? 'publisher' THEN EXCLUDED.publisher ELSE songs.publisher END,
+        original_key = CASE WHEN p_song ? 'original_key' THEN EXCLUDED.original_key ELSE songs.original_key END,
+        tempo = CASE WHEN p_song ? 'tempo' THEN EXCLUDED.tempo ELSE songs.tempo END,
+        time_signature = CASE WHEN p_song ? 'time_signature' THEN EXCLUDED.time_signature ELSE songs.time_signature END,
+        language = CASE WHEN p_song ? 'language' THEN EXCLUDED.language ELSE songs.language END,
+        tags = CASE WHEN p_song ? 'tags' THEN EXCLUDED.tags ELSE songs.tags END
+    WHERE songs.church_id = v_church_id;
+
+  DELETE FROM song_segments
+  WHERE song_id = v_song_id
+  AND id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(p_segments) AS s(id uuid)
+    WHERE s.id IS NOT NULL
+  );
+
+  INSERT INTO song_segments (id, song_id, type, label, order_num, content)
+  SELECT
+    COALESCE(s.id, gen_random_uuid()),
+    v_song_id,
+    s.type,
+    NULLIF(trim(s.label), ''),
+    s.order_num,
+    s.content
+  FROM jsonb_to_recordset(p_segments)
+    AS s(id uuid, type text, label text, order_num integer, content text)
+  ON CONFLICT (id) DO UPDATE
+    SET type = EXCLUDED.type,
+        label = EXCLUDED.label,
+        order_num = EXCLUDED.order_num,
+        content = EXCLUDED.content
+    WHERE song_segments.song_id = v_song_id;
+
+  IF p_arrangements IS NOT NULL THEN
+    DELETE FROM song_arrangements WHERE song_id = v_song_id;
+
+    INSERT INTO song_arrangements (id, song_id, name, sequence, is_default)
+    SELECT
+      COALESCE(a.id, gen_random_uuid()),
+      v_song_id,
+      a.name,
+      COALESCE(a.sequence, '{}'),
+      COALESCE(a.is_default, false)
+    FROM jsonb_to_recordset(p_arrangements)
+      AS a(id uuid, name text, sequence uuid[], is_default boolean);
+
+    -- Every song with arrangements keeps exactly one default
+    IF NOT EXISTS (
+      SELECT 1 FROM song_arrangements
+      WHERE song_id = v_song_id AND is_default
+    ) THEN
+      UPDATE song_arrangements
+      SET is_default = true
+      WHERE id = (
+        SELECT id FROM song_arrangements
+        WHERE song_id = v_song_id
+        ORDER BY created_at, id
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE song_arrangements a
+  SET sequence = ARRAY(
+    SELECT t.segment_id
+    FROM unnest(a.sequence) WITH ORDINALITY AS t(segment_id, position)
+    WHERE t.segment_id IN (
+      SELECT id FROM song_segments WHERE song_id = v_song_id
+    )
+    ORDER BY t.position
+  )
+  WHERE a.song_id = v_song_id;
+
+  RETURN v_song_id;
+END;
+$$;
@@ -0,0 +1,26 @@
+/*
+  # Song filter options
+
+  1. Functions
+    - song_filter_options returns the distinct tags, original keys and
+      languages used by the caller's church's songs, one row per value, so
+      the library can offer them as filters without loading every song
+*/
+
+CREATE OR REPLACE FUNCTION song_filter_options()
+RETURNS TABLE (kind text, value text)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH church_songs AS (
+    SELECT s.tags, s.original_key, s.language
+    FROM songs s
+    WHERE s.church_id = (SELECT u.church_id FROM users u WHERE u.id = auth.uid())
+  )
+  SELECT DISTINCT 'tag', unnest(tags) FROM church_songs
+  UNION
+  SELECT DISTINCT 'key', original_key FROM church_songs WHERE original_key IS NOT NULL
+  UNION
+  SELECT DISTINCT 'language', language FROM church_songs WHERE language IS NOT NULL;
+$$;
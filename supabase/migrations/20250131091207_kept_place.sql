@@ -0,0 +1,91 @@
+/*
+  # Keep service items when their song is deleted
+
+  1. Changes
+    - service_items.song_id
+      - Set to null, rather than deleting the item, when the song is deleted,
+        so the running order shows that a planned song has gone
+    - service_items_song_check is dropped, as a song item's song may now be
+      missing
+
+  2. Functions
+    - save_service rejects songs that don't belong to the caller's church
+*/
+
+ALTER TABLE service_items
+  DROP CONSTRAINT IF EXISTS service_items_song_id_fkey,
+  ADD CONSTRAINT service_items_song_id_fkey
+    FOREIGN KEY (song_id) REFERENCES songs ON DELETE SET NULL;
+
+ALTER TABLE service_items
+  DROP CONSTRAINT IF EXISTS service_items_song_check;
+
+CREATE OR REPLACE FUNCTION save_service(p_service jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_service_id uuid := COALESCE(NULLIF(p_service->>'id', '')::uuid, gen_random_uuid());
+  v_church_id uuid;
+  v_role text;
+BEGIN
+  SELECT church_id, role INTO v_church_id, v_role
+  FROM users
+  WHERE id = auth.uid();
+
+  IF v_church_id IS NULL OR v_role NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can save services'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_service->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Service name is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS i(song_id uuid)
+    WHERE i.song_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM songs
+      WHERE songs.id = i.song_id
+      AND songs.church_id = v_church_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'A song in this service is not in your church''s library'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO services (id, church_id, name, service_date, created_by)
+  VALUES (
+    v_service_id,
+    v_church_id,
+    trim(p_service->>'name'),
+    (p_service->>'service_date')::date,
+    auth.uid()
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        service_date = EXCLUDED.service_date
+    WHERE services.church_id = v_church_id;
+
+  DELETE FROM service_items WHERE service_id = v_service_id;
+
+  INSERT INTO service_items (id, service_id, position, item_type, song_id, arrangement_id, theme_id, data)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    v_service_id,
+    i.position,
+    COALESCE(i.item_type, 'song'),
+    i.song_id,
+    i.arrangement_id,
+    i.theme_id,
+    i.data
+  FROM jsonb_to_recordset(p_items)
+    AS i(id uuid, position integer, item_type text, song_id uuid, arrangement_id uuid, theme_id uuid, data jsonb);
+
+  RETURN v_service_id;
+END;
+$$;
@@ -2,7 +2,17 @@
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
-    extend: {},
+    extend: {
+      // Durations are set inline from the presentation theme
+      keyframes: {
+        'fade-in': { from: { opacity: '0' }, to: { opacity: '1' } },
+        'fade-out': { from: { opacity: '1' }, to: { opacity: '0' } },
+      },
+      animation: {
+        'fade-in': 'fade-in 1s ease-in-out both',
+        'fade-out': 'fade-out 1s ease-in-out both',
+      },
+    },
   },
   plugins: [
     require('@tailwindcss/forms')